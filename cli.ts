@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+
+// Load environment variables before the stores resolve their file paths
+dotenv.config();
+
+const USAGE = `Usage: anthrorouter keys <command> [options]
+
+Commands:
+  create --name <name> [--owner <owner>] [--expires <date>] [--models <a,b>] [limits]
+  list
+  show <id>
+  update <id> [--name <name>] [--owner <owner>] [--expires <date|never>] [--models <a,b>] [limits] [--enable | --disable]
+  revoke <id>
+  rotate <id>
+  usage [id] [--since <date>]
+
+Limits (0 means unlimited):
+  --rpm <n>             requests per minute
+  --input-tpm <n>       input tokens per minute
+  --output-tpm <n>      output tokens per minute
+  --daily-tokens <n>    input plus output tokens per UTC day
+  --monthly-tokens <n>  input plus output tokens per calendar month
+  --daily-usd <n>       spend per UTC day
+  --monthly-usd <n>     spend per calendar month
+
+Keys are read from and written to the same store as the running proxy
+(DATA_DIR/keys.json or KEY_STORE_PATH).`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function print(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+const LIMIT_FLAGS: Record<string, string> = {
+  rpm: 'requests_per_minute',
+  'input-tpm': 'input_tokens_per_minute',
+  'output-tpm': 'output_tokens_per_minute',
+  'daily-tokens': 'daily_tokens',
+  'monthly-tokens': 'monthly_tokens'
+};
+
+// Converts CLI flags into the admin API's request body shape
+function flagsToBody(values: Record<string, string | boolean | undefined>) {
+  const body: Record<string, unknown> = {};
+  if (values.name !== undefined) body.name = values.name;
+  if (values.owner !== undefined) body.owner = values.owner;
+  if (values.expires !== undefined) body.expires_at = values.expires === 'never' ? null : values.expires;
+  if (values.models !== undefined) {
+    body.allowed_models = String(values.models).split(',').map(model => model.trim()).filter(Boolean);
+  }
+  const rateLimits: Record<string, number> = {};
+  for (const [flag, field] of Object.entries(LIMIT_FLAGS)) {
+    if (values[flag] !== undefined) rateLimits[field] = Number(values[flag]);
+  }
+  if (Object.keys(rateLimits).length > 0) body.rate_limits = rateLimits;
+  const spendLimits: Record<string, number> = {};
+  if (values['daily-usd'] !== undefined) spendLimits.daily_usd = Number(values['daily-usd']);
+  if (values['monthly-usd'] !== undefined) spendLimits.monthly_usd = Number(values['monthly-usd']);
+  if (Object.keys(spendLimits).length > 0) body.spend_limits = spendLimits;
+  if (values.enable) body.enabled = true;
+  if (values.disable) body.enabled = false;
+  return body;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      owner: { type: 'string' },
+      expires: { type: 'string' },
+      models: { type: 'string' },
+      rpm: { type: 'string' },
+      'input-tpm': { type: 'string' },
+      'output-tpm': { type: 'string' },
+      'daily-tokens': { type: 'string' },
+      'monthly-tokens': { type: 'string' },
+      'daily-usd': { type: 'string' },
+      'monthly-usd': { type: 'string' },
+      since: { type: 'string' },
+      enable: { type: 'boolean' },
+      disable: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [group, command, id] = positionals;
+  if (values.help || group !== 'keys' || !command) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const { parseKeyFields, toPublicKey, toPublicUsage } = await import('./lib/admin');
+  const keyStore = await import('./lib/key-store');
+  const { summarizeUsage } = await import('./lib/usage');
+
+  const parseFields = () => {
+    try {
+      return parseKeyFields(flagsToBody(values));
+    } catch (error: any) {
+      fail(error.message);
+    }
+  };
+  const requireId = () => id || fail(`Missing key id.\n\n${USAGE}`);
+
+  switch (command) {
+    case 'create': {
+      const fields = parseFields();
+      if (!fields.name) {
+        fail('--name is required');
+      }
+      const { record, key } = keyStore.createKey({ ...fields, name: fields.name });
+      print({ ...toPublicKey(record), key });
+      console.error('Store this key now; it cannot be shown again.');
+      break;
+    }
+    case 'list':
+      print(keyStore.listKeys().map(toPublicKey));
+      break;
+    case 'show': {
+      const record = keyStore.getKey(requireId()) || fail(`API key ${id} not found`);
+      print(toPublicKey(record));
+      break;
+    }
+    case 'update': {
+      const record = keyStore.updateKey(requireId(), parseFields()) || fail(`API key ${id} not found`);
+      print(toPublicKey(record));
+      break;
+    }
+    case 'revoke': {
+      const record = keyStore.updateKey(requireId(), { enabled: false }) || fail(`API key ${id} not found`);
+      print(toPublicKey(record));
+      break;
+    }
+    case 'rotate': {
+      const rotated = keyStore.rotateKey(requireId()) || fail(`API key ${id} not found`);
+      print({ ...toPublicKey(rotated.record), key: rotated.key });
+      console.error('Store this key now; it cannot be shown again.');
+      break;
+    }
+    case 'usage': {
+      const since = values.since ? new Date(values.since) : undefined;
+      if (since && Number.isNaN(since.getTime())) {
+        fail('--since must be a date');
+      }
+      print(summarizeUsage({ keyId: id, since }).map(toPublicUsage));
+      break;
+    }
+    default:
+      fail(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
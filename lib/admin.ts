@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import express from 'express';
+import { sendError } from './errors';
+import { ApiKeyRecord, createKey, getKey, KeyRateLimits, KeySpendLimits, LimitChanges, listKeys, NewApiKey, rotateKey, updateKey } from './key-store';
+import { summarizeUsage, UsageSummary } from './usage';
+
+// Admin API fields are snake_case, matching the public API
+export function toPublicKey(record: ApiKeyRecord) {
+  return {
+    id: record.id,
+    name: record.name,
+    owner: record.owner ?? null,
+    key_prefix: record.keyPrefix,
+    created_at: record.createdAt,
+    expires_at: record.expiresAt ?? null,
+    enabled: record.enabled,
+    allowed_models: record.allowedModels ?? [],
+    rate_limits: {
+      requests_per_minute: record.rateLimits?.requestsPerMinute ?? null,
+      input_tokens_per_minute: record.rateLimits?.inputTokensPerMinute ?? null,
+      output_tokens_per_minute: record.rateLimits?.outputTokensPerMinute ?? null,
+      daily_tokens: record.rateLimits?.dailyTokens ?? null,
+      monthly_tokens: record.rateLimits?.monthlyTokens ?? null
+    },
+    spend_limits: {
+      daily_usd: record.spendLimits?.dailyUsd ?? null,
+      monthly_usd: record.spendLimits?.monthlyUsd ?? null
+    }
+  };
+}
+
+// Rounded to a millionth of a dollar to hide floating point noise
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+export function toPublicUsage(summary: UsageSummary) {
+  return {
+    key_id: summary.keyId,
+    requests: summary.requests,
+    input_tokens: summary.inputTokens,
+    output_tokens: summary.outputTokens,
+    reasoning_tokens: summary.reasoningTokens,
+    cached_tokens: summary.cachedTokens,
+    cost_usd: roundUsd(summary.cost),
+    first_used_at: summary.firstUsedAt,
+    last_used_at: summary.lastUsedAt,
+    by_model: Object.fromEntries(
+      Object.entries(summary.byModel).map(([model, usage]) => [model, {
+        requests: usage.requests,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        reasoning_tokens: usage.reasoningTokens,
+        cached_tokens: usage.cachedTokens,
+        cost_usd: roundUsd(usage.cost)
+      }])
+    )
+  };
+}
+
+export class InvalidKeyFieldsError extends Error {}
+
+// 0 means unlimited and null falls back to the server default. Updates merge
+// into the key's limits, so fields left out keep their current value.
+const RATE_LIMIT_FIELDS: Record<string, keyof KeyRateLimits> = {
+  requests_per_minute: 'requestsPerMinute',
+  input_tokens_per_minute: 'inputTokensPerMinute',
+  output_tokens_per_minute: 'outputTokensPerMinute',
+  daily_tokens: 'dailyTokens',
+  monthly_tokens: 'monthlyTokens'
+};
+
+const SPEND_LIMIT_FIELDS: Record<string, keyof KeySpendLimits> = {
+  daily_usd: 'dailyUsd',
+  monthly_usd: 'monthlyUsd'
+};
+
+// Parses the editable key fields, leaving out anything not present in the body
+export function parseKeyFields(body: any): Partial<NewApiKey> & { enabled?: boolean } {
+  const fields: Partial<NewApiKey> & { enabled?: boolean } = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new InvalidKeyFieldsError('name must be a non-empty string');
+    }
+    fields.name = body.name.trim();
+  }
+  if (body.owner !== undefined) {
+    if (body.owner !== null && typeof body.owner !== 'string') {
+      throw new InvalidKeyFieldsError('owner must be a string');
+    }
+    fields.owner = body.owner ?? undefined;
+  }
+  if (body.expires_at !== undefined) {
+    if (body.expires_at !== null && Number.isNaN(Date.parse(body.expires_at))) {
+      throw new InvalidKeyFieldsError('expires_at must be an ISO 8601 date');
+    }
+    fields.expiresAt = body.expires_at === null ? null : new Date(body.expires_at).toISOString();
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      throw new InvalidKeyFieldsError('enabled must be a boolean');
+    }
+    fields.enabled = body.enabled;
+  }
+  if (body.allowed_models !== undefined) {
+    if (!Array.isArray(body.allowed_models) || body.allowed_models.some((m: unknown) => typeof m !== 'string')) {
+      throw new InvalidKeyFieldsError('allowed_models must be an array of strings');
+    }
+    fields.allowedModels = body.allowed_models;
+  }
+  if (body.rate_limits !== undefined) {
+    const rateLimits: LimitChanges<KeyRateLimits> = {};
+    for (const [field, property] of Object.entries(RATE_LIMIT_FIELDS)) {
+      // rate_limits: null resets every limit
+      const value = body.rate_limits === null ? null : body.rate_limits[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (value === null) {
+        rateLimits[property] = null;
+        continue;
+      }
+      if (!Number.isInteger(value) || value < 0) {
+        throw new InvalidKeyFieldsError(`rate_limits.${field} must be a non-negative integer`);
+      }
+      rateLimits[property] = value;
+    }
+    fields.rateLimits = rateLimits;
+  }
+  if (body.spend_limits !== undefined) {
+    const spendLimits: LimitChanges<KeySpendLimits> = {};
+    for (const [field, property] of Object.entries(SPEND_LIMIT_FIELDS)) {
+      const value = body.spend_limits === null ? null : body.spend_limits[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (value === null) {
+        spendLimits[property] = null;
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new InvalidKeyFieldsError(`spend_limits.${field} must be a non-negative number`);
+      }
+      spendLimits[property] = value;
+    }
+    fields.spendLimits = spendLimits;
+  }
+
+  return fields;
+}
+
+function requireAdminToken(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return sendError(res, 403, 'permission_error', 'Admin API is disabled. Set ADMIN_TOKEN to enable it.');
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(token);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return sendError(res, 401, 'authentication_error', 'Invalid admin token');
+  }
+
+  next();
+}
+
+function keyNotFound(res: express.Response, id: string) {
+  return sendError(res, 404, 'not_found_error', `API key ${id} not found`);
+}
+
+function invalidRequest(res: express.Response, message: string) {
+  return sendError(res, 400, 'invalid_request_error', message);
+}
+
+function parseSince(value: unknown): Date | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const since = new Date(value);
+  return Number.isNaN(since.getTime()) ? undefined : since;
+}
+
+export function createAdminRouter(): express.Router {
+  const router = express.Router();
+  router.use(requireAdminToken);
+
+  router.post('/keys', (req, res) => {
+    let fields;
+    try {
+      fields = parseKeyFields(req.body || {});
+    } catch (error) {
+      if (error instanceof InvalidKeyFieldsError) {
+        return invalidRequest(res, error.message);
+      }
+      throw error;
+    }
+    if (!fields.name) {
+      return invalidRequest(res, 'name is required');
+    }
+
+    const { record, key } = createKey({ ...fields, name: fields.name });
+    // The plaintext key is only returned by create and rotate
+    res.status(201).json({ ...toPublicKey(record), key });
+  });
+
+  router.get('/keys', (req, res) => {
+    res.json({ data: listKeys().map(toPublicKey) });
+  });
+
+  router.get('/keys/:id', (req, res) => {
+    const record = getKey(req.params.id);
+    if (!record) {
+      return keyNotFound(res, req.params.id);
+    }
+    res.json(toPublicKey(record));
+  });
+
+  router.patch('/keys/:id', (req, res) => {
+    let fields;
+    try {
+      fields = parseKeyFields(req.body || {});
+    } catch (error) {
+      if (error instanceof InvalidKeyFieldsError) {
+        return invalidRequest(res, error.message);
+      }
+      throw error;
+    }
+
+    const record = updateKey(req.params.id, fields);
+    if (!record) {
+      return keyNotFound(res, req.params.id);
+    }
+    res.json(toPublicKey(record));
+  });
+
+  router.post('/keys/:id/revoke', (req, res) => {
+    const record = updateKey(req.params.id, { enabled: false });
+    if (!record) {
+      return keyNotFound(res, req.params.id);
+    }
+    res.json(toPublicKey(record));
+  });
+
+  router.post('/keys/:id/rotate', (req, res) => {
+    const rotated = rotateKey(req.params.id);
+    if (!rotated) {
+      return keyNotFound(res, req.params.id);
+    }
+    res.json({ ...toPublicKey(rotated.record), key: rotated.key });
+  });
+
+  router.get('/keys/:id/usage', (req, res) => {
+    if (!getKey(req.params.id)) {
+      return keyNotFound(res, req.params.id);
+    }
+    const [summary] = summarizeUsage({ keyId: req.params.id, since: parseSince(req.query.since) });
+    res.json(toPublicUsage(summary));
+  });
+
+  router.get('/usage', (req, res) => {
+    res.json({ data: summarizeUsage({ since: parseSince(req.query.since) }).map(toPublicUsage) });
+  });
+
+  return router;
+}
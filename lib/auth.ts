@@ -1,90 +1,62 @@
 import crypto from 'crypto';
+import { ApiKeyRecord, findKeyByHash, isKeyActive } from './key-store';
+import { matchesModelPattern } from './routing';
 
-// In-memory cache for API keys (in production, use Redis)
-const apiKeyCache = new Map<string, { valid: boolean; userId?: string; expiresAt: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// Dev mode re-enables the sk-ant- wildcard prefix and the shared test key.
+// Never turn it on for a proxy reachable by others.
+const DEV_MODE = process.env.DEV_MODE === 'true';
+const TEST_API_KEY = 'test-api-key-123';
 
-export async function validateApiKey(apiKey: string): Promise<boolean> {
-  // Check cache first
-  const cached = apiKeyCache.get(apiKey);
-  if (cached && cached.expiresAt > Date.now()) {
-    return cached.valid;
-  }
-
-  // For demo purposes, check if it's one of the valid keys
-  const validKeys = process.env.VALID_API_KEYS?.split(',') || [];
-
-  // Accept keys with specific prefix for testing
-  const isValidFormat = apiKey.startsWith('sk-ant-') && apiKey.length > 40;
-  const isInValidList = validKeys.includes(apiKey);
-  const isTestKey = apiKey === 'test-api-key-123'; // Test key for development
-
-  const isValid = isValidFormat || isInValidList || isTestKey;
-
-  // Cache the result
-  apiKeyCache.set(apiKey, {
-    valid: isValid,
-    expiresAt: Date.now() + CACHE_TTL
-  });
-
-  // Optional: Log API usage for analytics
-  if (isValid && process.env.NODE_ENV === 'development') {
-    console.log(`API key used: ${apiKey.substring(0, 10)}...`);
-  }
-
-  return isValid;
-}
-
-export function hashApiKey(apiKey: string): string {
-  return crypto.createHash('sha256').update(apiKey).digest('hex');
+// Records for keys that don't live in the key store
+function envKeyRecord(apiKey: string, id: string, name: string): ApiKeyRecord {
+  return {
+    id,
+    name,
+    keyHash: hashApiKey(apiKey),
+    keyPrefix: apiKey.substring(0, 10),
+    createdAt: new Date(0).toISOString(),
+    enabled: true
+  };
 }
 
-// Rate limiting implementation
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT = 100; // Requests per minute
-const RATE_WINDOW = 60 * 1000; // 1 minute
-
-export async function checkRateLimit(apiKey: string): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
-  const now = Date.now();
+// Returns the key's record, or null when the key is unknown, disabled or expired
+export async function validateApiKey(apiKey: string): Promise<ApiKeyRecord | null> {
   const keyHash = hashApiKey(apiKey);
 
-  let limit = rateLimitMap.get(keyHash);
-
-  if (!limit || limit.resetAt < now) {
-    limit = {
-      count: 0,
-      resetAt: now + RATE_WINDOW
-    };
-    rateLimitMap.set(keyHash, limit);
+  const stored = findKeyByHash(keyHash);
+  if (stored) {
+    return isKeyActive(stored) ? stored : null;
   }
 
-  limit.count++;
+  // Keys configured through the environment
+  const validKeys = process.env.VALID_API_KEYS?.split(',').map(key => key.trim()) || [];
+  const envIndex = validKeys.indexOf(apiKey);
+  if (envIndex !== -1) {
+    return envKeyRecord(apiKey, `env_${envIndex}`, 'VALID_API_KEYS entry');
+  }
 
-  const allowed = limit.count <= RATE_LIMIT;
-  const remaining = Math.max(0, RATE_LIMIT - limit.count);
+  if (DEV_MODE) {
+    const isValidFormat = apiKey.startsWith('sk-ant-') && apiKey.length > 40;
+    if (isValidFormat || apiKey === TEST_API_KEY) {
+      console.log(`Dev mode API key used: ${apiKey.substring(0, 10)}...`);
+      return envKeyRecord(apiKey, 'dev', 'Dev mode key');
+    }
+  }
 
-  return {
-    allowed,
-    remaining,
-    resetAt: limit.resetAt
-  };
+  return null;
 }
 
-// Clean up expired entries periodically
-setInterval(() => {
-  const now = Date.now();
-
-  // Clean up API key cache
-  for (const [key, value] of apiKeyCache.entries()) {
-    if (value.expiresAt < now) {
-      apiKeyCache.delete(key);
-    }
+// A key may use a model when either the requested alias or the resolved
+// upstream model matches one of its allowed patterns
+export function isModelAllowed(record: ApiKeyRecord, ...models: string[]): boolean {
+  if (!record.allowedModels || record.allowedModels.length === 0) {
+    return true;
   }
+  return record.allowedModels.some(pattern =>
+    models.some(model => matchesModelPattern(pattern, model))
+  );
+}
 
-  // Clean up rate limit map
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (value.resetAt < now) {
-      rateLimitMap.delete(key);
-    }
-  }
-}, 60 * 1000); // Run every minute
\ No newline at end of file
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
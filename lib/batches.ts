@@ -0,0 +1,557 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { isModelAllowed } from './auth';
+import { ApiKeyRecord, getKey } from './key-store';
+import { inputTokensTotal, outputTokensTotal } from './metrics';
+import { AnthropicRequest, AnthropicRequestHandler, AnthropicResponse, OpenRouterResponse } from './request-handler';
+import { checkQuota, recordTokenUsage } from './rate-limit';
+import { checkSpendLimit, computeCost, recordSpend } from './spend';
+import { ErrorBody, errorBody, sendError, translateCompletionError, translateUpstreamError } from './errors';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import { fetchWithFallback } from './upstream';
+import { fromOpenRouterUsage, recordUsage } from './usage';
+import { InvalidRequestError, validateMessagesRequest } from './validation';
+
+const BATCH_DIR = process.env.BATCH_DIR || dataPath('batches');
+// Items sent upstream at once, across all batches
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
+// Items not started within this long of creation expire, like Anthropic's 24 hours
+const BATCH_EXPIRY_MS = Number(process.env.BATCH_EXPIRY_HOURS || 24) * 60 * 60 * 1000;
+const MAX_REQUESTS = 100000;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 1000;
+
+const CUSTOM_ID = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface BatchRequestItem {
+  custom_id: string;
+  params: AnthropicRequest;
+}
+
+export type BatchResult =
+  | { type: 'succeeded'; message: AnthropicResponse }
+  | { type: 'errored'; error: ErrorBody }
+  | { type: 'canceled' }
+  | { type: 'expired' };
+
+export interface StoredBatch {
+  id: string;
+  // Snapshot of the creating key, used when the key isn't in the key store
+  key: ApiKeyRecord;
+  createdAt: string;
+  expiresAt: string;
+  cancelInitiatedAt: string | null;
+  endedAt: string | null;
+  requests: BatchRequestItem[];
+}
+
+export interface RequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+export type BatchItemProcessor = (item: BatchRequestItem, key: ApiKeyRecord) => Promise<BatchResult>;
+
+export interface BatchQueueOptions {
+  dir: string;
+  concurrency: number;
+  processItem: BatchItemProcessor;
+}
+
+interface BatchState {
+  batch: StoredBatch;
+  // custom_ids with a result on disk
+  done: Set<string>;
+  counts: RequestCounts;
+}
+
+export class InvalidBatchError extends Error {}
+
+export function batchError(type: string, message: string): BatchResult {
+  return { type: 'errored', error: errorBody(type, message) };
+}
+
+// Checks the shape Anthropic requires of a batch; each item's params are
+// checked like a /v1/messages body when the item runs
+export function parseBatchRequests(body: any): BatchRequestItem[] {
+  const requests = body?.requests;
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new InvalidBatchError('requests must be a non-empty array');
+  }
+  if (requests.length > MAX_REQUESTS) {
+    throw new InvalidBatchError(`requests may contain at most ${MAX_REQUESTS} items`);
+  }
+
+  const seen = new Set<string>();
+  requests.forEach((item: any, index: number) => {
+    if (typeof item?.custom_id !== 'string' || !CUSTOM_ID.test(item.custom_id)) {
+      throw new InvalidBatchError(`requests.${index}.custom_id must be 1-64 letters, digits, hyphens or underscores`);
+    }
+    if (seen.has(item.custom_id)) {
+      throw new InvalidBatchError(`requests.${index}.custom_id: duplicate custom_id ${item.custom_id}`);
+    }
+    seen.add(item.custom_id);
+    if (!item.params || typeof item.params !== 'object' || typeof item.params.model !== 'string' || !Array.isArray(item.params.messages)) {
+      throw new InvalidBatchError(`requests.${index}.params must be a Messages API request with model and messages`);
+    }
+    if (item.params.stream) {
+      throw new InvalidBatchError(`requests.${index}.params.stream: streaming is not supported in batches`);
+    }
+  });
+
+  return requests.map((item: any) => ({ custom_id: item.custom_id, params: item.params }));
+}
+
+function generateBatchId(): string {
+  return `msgbatch_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function emptyCounts(total: number): RequestCounts {
+  return { processing: total, succeeded: 0, errored: 0, canceled: 0, expired: 0 };
+}
+
+/**
+ * A persistent queue of message batches. Each batch is a JSON file holding
+ * its requests, next to a JSONL file its results are appended to as items
+ * finish, so a restart picks up exactly the items that have no result yet.
+ * Items from every batch share one pool of `concurrency` workers.
+ */
+export class BatchQueue {
+  private options: BatchQueueOptions;
+  private batches = new Map<string, BatchState>();
+  private queue: Array<{ batchId: string; index: number }> = [];
+  private active = 0;
+  private loaded = false;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(options: BatchQueueOptions) {
+    this.options = options;
+  }
+
+  // Reads batches from disk and resumes unfinished ones; runs once
+  load() {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(this.options.dir).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Failed to read batches:', error);
+      }
+    }
+
+    const stored = files
+      .map(file => readJsonFile<StoredBatch>(path.join(this.options.dir, file)))
+      .filter((batch): batch is StoredBatch => batch !== null)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const batch of stored) {
+      const state = this.restoreState(batch);
+      this.batches.set(batch.id, state);
+      if (batch.endedAt) {
+        continue;
+      }
+      if (batch.cancelInitiatedAt) {
+        // Nothing is running yet, so every item without a result is canceled
+        for (const item of batch.requests) {
+          if (!state.done.has(item.custom_id)) {
+            this.recordResult(state, item.custom_id, { type: 'canceled' });
+          }
+        }
+        this.maybeEnd(state);
+        continue;
+      }
+      batch.requests.forEach((item, index) => {
+        if (!state.done.has(item.custom_id)) {
+          this.queue.push({ batchId: batch.id, index });
+        }
+      });
+      this.maybeEnd(state);
+    }
+    this.pump();
+  }
+
+  create(key: ApiKeyRecord, requests: BatchRequestItem[]): StoredBatch {
+    this.load();
+    const now = new Date();
+    const batch: StoredBatch = {
+      id: generateBatchId(),
+      key,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + BATCH_EXPIRY_MS).toISOString(),
+      cancelInitiatedAt: null,
+      endedAt: null,
+      requests
+    };
+    this.save(batch);
+    this.batches.set(batch.id, { batch, done: new Set(), counts: emptyCounts(requests.length) });
+    requests.forEach((_, index) => this.queue.push({ batchId: batch.id, index }));
+    this.pump();
+    return batch;
+  }
+
+  get(id: string): BatchState | undefined {
+    this.load();
+    return this.batches.get(id);
+  }
+
+  // Newest first, like Anthropic's list
+  list(keyId: string): BatchState[] {
+    this.load();
+    return [...this.batches.values()].filter(state => state.batch.key.id === keyId).reverse();
+  }
+
+  // Queued items are canceled at once; items already upstream finish normally
+  cancel(id: string): BatchState | undefined {
+    const state = this.get(id);
+    if (!state || state.batch.endedAt || state.batch.cancelInitiatedAt) {
+      return state;
+    }
+    state.batch.cancelInitiatedAt = new Date().toISOString();
+    this.save(state.batch);
+    this.cancelQueued(state);
+    return state;
+  }
+
+  delete(id: string): boolean {
+    const state = this.get(id);
+    if (!state) {
+      return false;
+    }
+    this.batches.delete(id);
+    fs.rmSync(this.batchPath(id), { force: true });
+    fs.rmSync(this.resultsPath(id), { force: true });
+    return true;
+  }
+
+  resultsPath(id: string): string {
+    return path.join(this.options.dir, `${id}.results.jsonl`);
+  }
+
+  // Resolves once nothing is queued or running
+  whenIdle(): Promise<void> {
+    if (this.active === 0 && this.queue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private batchPath(id: string): string {
+    return path.join(this.options.dir, `${id}.json`);
+  }
+
+  private save(batch: StoredBatch) {
+    writeJsonFile(this.batchPath(batch.id), batch);
+  }
+
+  // Rebuilds the counts from the results written before a restart
+  private restoreState(batch: StoredBatch): BatchState {
+    const state: BatchState = { batch, done: new Set(), counts: emptyCounts(batch.requests.length) };
+    let contents = '';
+    try {
+      contents = fs.readFileSync(this.resultsPath(batch.id), 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to read results of ${batch.id}:`, error);
+      }
+    }
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      try {
+        const { custom_id, result } = JSON.parse(line);
+        if (!state.done.has(custom_id)) {
+          state.done.add(custom_id);
+          state.counts.processing--;
+          state.counts[result.type as keyof RequestCounts]++;
+        }
+      } catch {
+        // Skip a line torn by a crash mid-write; the item runs again
+      }
+    }
+    return state;
+  }
+
+  private recordResult(state: BatchState, customId: string, result: BatchResult) {
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    fs.appendFileSync(this.resultsPath(state.batch.id), JSON.stringify({ custom_id: customId, result }) + '\n');
+    state.done.add(customId);
+    state.counts.processing--;
+    state.counts[result.type]++;
+  }
+
+  private cancelQueued(state: BatchState) {
+    this.queue = this.queue.filter(({ batchId, index }) => {
+      if (batchId !== state.batch.id) {
+        return true;
+      }
+      this.recordResult(state, state.batch.requests[index].custom_id, { type: 'canceled' });
+      return false;
+    });
+    this.maybeEnd(state);
+  }
+
+  private maybeEnd(state: BatchState) {
+    if (!state.batch.endedAt && state.done.size === state.batch.requests.length) {
+      state.batch.endedAt = new Date().toISOString();
+      this.save(state.batch);
+    }
+  }
+
+  private pump() {
+    while (this.active < this.options.concurrency && this.queue.length > 0) {
+      const { batchId, index } = this.queue.shift()!;
+      const state = this.batches.get(batchId);
+      if (!state) {
+        continue;
+      }
+      this.active++;
+      this.run(state, index).finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+    if (this.active === 0 && this.queue.length === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  private async run(state: BatchState, index: number) {
+    const item = state.batch.requests[index];
+    if (Date.now() >= Date.parse(state.batch.expiresAt)) {
+      this.recordResult(state, item.custom_id, { type: 'expired' });
+      this.maybeEnd(state);
+      return;
+    }
+
+    let result: BatchResult;
+    try {
+      const key = getKey(state.batch.key.id) ?? state.batch.key;
+      result = await this.options.processItem(item, key);
+    } catch (error) {
+      console.error(`Batch ${state.batch.id} item ${item.custom_id} failed:`, error);
+      result = batchError('api_error', 'Internal server error');
+    }
+
+    // A deleted batch has nowhere to put the result
+    if (this.batches.get(state.batch.id) === state) {
+      this.recordResult(state, item.custom_id, result);
+      this.maybeEnd(state);
+    }
+  }
+}
+
+/**
+ * Runs one batch item through the same translation, routing, upstream and
+ * accounting as a non-streaming /v1/messages request. Batch items are held
+ * to the key's spend limits and daily/monthly token quotas, but are not
+ * admitted against the per-minute rate limits.
+ */
+export async function processBatchItem(item: BatchRequestItem, key: ApiKeyRecord): Promise<BatchResult> {
+  // Like Anthropic, params are only validated when the item runs
+  let params: AnthropicRequest;
+  try {
+    params = validateMessagesRequest(item.params);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      return batchError('invalid_request_error', error.message);
+    }
+    throw error;
+  }
+
+  const handler = new AnthropicRequestHandler({ ...params, stream: false });
+  if (!isModelAllowed(key, handler.route.requestedModel, handler.route.model)) {
+    return batchError('permission_error', `This API key is not allowed to use model ${handler.route.requestedModel}`);
+  }
+  const spend = checkSpendLimit(key);
+  if (!spend.allowed) {
+    return batchError('billing_error', spend.message!);
+  }
+  const quota = checkQuota(key);
+  if (!quota.allowed) {
+    return batchError('rate_limit_error', quota.message!);
+  }
+
+  const upstream = await fetchWithFallback(handler.transformToOpenRouter(), handler.route.targets);
+  if (!upstream.response.ok) {
+    const { body } = await translateUpstreamError(upstream.response);
+    return { type: 'errored', error: body };
+  }
+
+  const data = await upstream.response.json() as OpenRouterResponse;
+  const failure = translateCompletionError(data);
+  if (failure) {
+    return { type: 'errored', error: failure.body };
+  }
+  const message = handler.transformToAnthropicResponse(data);
+  const usage = fromOpenRouterUsage(data.usage);
+  const labels = { model: handler.route.requestedModel, provider: upstream.provider, upstream_model: upstream.model };
+  inputTokensTotal.inc(labels, usage.inputTokens);
+  outputTokensTotal.inc(labels, usage.outputTokens);
+  const cost = await computeCost(upstream.model, usage);
+  recordUsage({
+    keyId: key.id,
+    model: handler.route.requestedModel,
+    provider: upstream.provider,
+    upstreamModel: upstream.model,
+    stream: false,
+    ...usage,
+    cost
+  });
+  recordSpend(key, cost);
+  // Counts the tokens against the key's quotas right away rather than at the next restart
+  recordTokenUsage(key, 0, usage);
+  return { type: 'succeeded', message };
+}
+
+export const batchQueue = new BatchQueue({ dir: BATCH_DIR, concurrency: BATCH_CONCURRENCY, processItem: processBatchItem });
+
+function processingStatus(batch: StoredBatch): 'in_progress' | 'canceling' | 'ended' {
+  if (batch.endedAt) {
+    return 'ended';
+  }
+  return batch.cancelInitiatedAt ? 'canceling' : 'in_progress';
+}
+
+// Anthropic's MessageBatch object; results_url is absolute like Anthropic's
+export function toPublicBatch(state: BatchState, baseUrl: string) {
+  const { batch } = state;
+  return {
+    id: batch.id,
+    type: 'message_batch',
+    processing_status: processingStatus(batch),
+    request_counts: { ...state.counts },
+    ended_at: batch.endedAt,
+    created_at: batch.createdAt,
+    expires_at: batch.expiresAt,
+    archived_at: null,
+    cancel_initiated_at: batch.cancelInitiatedAt,
+    results_url: batch.endedAt ? `${baseUrl}/${batch.id}/results` : null
+  };
+}
+
+function invalidRequest(res: express.Response, message: string) {
+  sendError(res, 400, 'invalid_request_error', message);
+}
+
+function batchNotFound(res: express.Response, id: string) {
+  sendError(res, 404, 'not_found_error', `Message batch ${id} not found`);
+}
+
+export function createBatchRouter(queue: BatchQueue = batchQueue): express.Router {
+  const router = express.Router();
+
+  const baseUrl = (req: express.Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+  // Batches are only visible to the key that created them
+  const findBatch = (req: express.Request, res: express.Response): BatchState | undefined => {
+    const state = queue.get(req.params.id);
+    if (!state || state.batch.key.id !== res.locals.apiKeyRecord.id) {
+      batchNotFound(res, req.params.id);
+      return undefined;
+    }
+    return state;
+  };
+
+  router.post('/', (req, res) => {
+    let requests;
+    try {
+      requests = parseBatchRequests(req.body);
+    } catch (error) {
+      if (error instanceof InvalidBatchError) {
+        return invalidRequest(res, error.message);
+      }
+      throw error;
+    }
+    const batch = queue.create(res.locals.apiKeyRecord, requests);
+    res.json(toPublicBatch(queue.get(batch.id)!, baseUrl(req)));
+  });
+
+  router.get('/', (req, res) => {
+    const batches = queue.list(res.locals.apiKeyRecord.id);
+    const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+    let page: BatchState[];
+    let hasMore: boolean;
+    if (req.query.before_id) {
+      const end = batches.findIndex(state => state.batch.id === req.query.before_id);
+      const stop = end === -1 ? 0 : end;
+      const start = Math.max(0, stop - limit);
+      page = batches.slice(start, stop);
+      hasMore = start > 0;
+    } else {
+      const after = req.query.after_id ? batches.findIndex(state => state.batch.id === req.query.after_id) : -1;
+      const start = req.query.after_id && after === -1 ? batches.length : after + 1;
+      page = batches.slice(start, start + limit);
+      hasMore = start + limit < batches.length;
+    }
+
+    res.json({
+      data: page.map(state => toPublicBatch(state, baseUrl(req))),
+      has_more: hasMore,
+      first_id: page[0]?.batch.id ?? null,
+      last_id: page[page.length - 1]?.batch.id ?? null
+    });
+  });
+
+  router.get('/:id', (req, res) => {
+    const state = findBatch(req, res);
+    if (state) {
+      res.json(toPublicBatch(state, baseUrl(req)));
+    }
+  });
+
+  router.post('/:id/cancel', (req, res) => {
+    if (findBatch(req, res)) {
+      res.json(toPublicBatch(queue.cancel(req.params.id)!, baseUrl(req)));
+    }
+  });
+
+  router.get('/:id/results', (req, res) => {
+    const state = findBatch(req, res);
+    if (!state) {
+      return;
+    }
+    if (!state.batch.endedAt) {
+      return invalidRequest(res, `Message batch ${state.batch.id} has not ended yet`);
+    }
+    const results = fs.createReadStream(queue.resultsPath(state.batch.id));
+    results.on('open', () => res.type('application/x-jsonl'));
+    results.on('error', error => {
+      console.error(`Failed to read results of batch ${state.batch.id}:`, error);
+      // Once lines have been sent the only way to signal failure is to cut the response
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        sendError(res, 500, 'api_error', `Results of message batch ${state.batch.id} could not be read`);
+      }
+    });
+    results.pipe(res);
+  });
+
+  router.delete('/:id', (req, res) => {
+    const state = findBatch(req, res);
+    if (!state) {
+      return;
+    }
+    if (!state.batch.endedAt) {
+      return invalidRequest(res, `Message batch ${state.batch.id} must be ended or canceled before it can be deleted`);
+    }
+    queue.delete(state.batch.id);
+    res.json({ id: state.batch.id, type: 'message_batch_deleted' });
+  });
+
+  return router;
+}
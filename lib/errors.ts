@@ -0,0 +1,152 @@
+import express from 'express';
+
+export interface ErrorBody {
+  type: 'error';
+  error: { type: string; message: string; [key: string]: unknown };
+}
+
+export interface TranslatedError {
+  status: number;
+  body: ErrorBody;
+  // Forwarded with rate_limit_error so clients back off as the upstream asked
+  retryAfter: string | null;
+}
+
+// The status Anthropic returns with each error type
+const ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  billing_error: 402,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529
+};
+
+// Anthropic's error envelope, used for every API error response
+export function errorBody(type: string, message: string, details?: Record<string, unknown>): ErrorBody {
+  return { type: 'error', error: { type, message, ...details } };
+}
+
+export function sendError(res: express.Response, status: number, type: string, message: string) {
+  res.status(status).json(errorBody(type, message));
+}
+
+export interface FormattedError {
+  status: number;
+  body: unknown;
+}
+
+// Renders an error, named by its Anthropic type, in one client API's format
+export type ErrorFormat = (type: string, message: string, details?: Record<string, unknown>) => FormattedError;
+
+export const anthropicErrors: ErrorFormat = (type, message, details) => ({
+  status: ERROR_STATUS[type] ?? 500,
+  body: errorBody(type, message, details)
+});
+
+// OpenAI's status, type and code for each Anthropic error type. OpenAI has no
+// 529, so overload is a 503 as OpenRouter reports it.
+const OPENAI_ERRORS: Record<string, { status: number; type: string; code: string | null }> = {
+  invalid_request_error: { status: 400, type: 'invalid_request_error', code: null },
+  authentication_error: { status: 401, type: 'invalid_request_error', code: 'invalid_api_key' },
+  billing_error: { status: 402, type: 'insufficient_quota', code: 'insufficient_quota' },
+  permission_error: { status: 403, type: 'invalid_request_error', code: 'permission_denied' },
+  not_found_error: { status: 404, type: 'invalid_request_error', code: 'not_found' },
+  request_too_large: { status: 413, type: 'invalid_request_error', code: 'request_too_large' },
+  rate_limit_error: { status: 429, type: 'requests', code: 'rate_limit_exceeded' },
+  api_error: { status: 500, type: 'server_error', code: null },
+  overloaded_error: { status: 503, type: 'server_error', code: 'overloaded' }
+};
+
+// OpenAI's {error: {message, type, param, code}}; details.param names the offending field
+export const openAIErrors: ErrorFormat = (type, message, details = {}) => {
+  const { param = null, ...rest } = details;
+  const mapped = OPENAI_ERRORS[type] ?? OPENAI_ERRORS.api_error;
+  return {
+    status: mapped.status,
+    body: { error: { message, type: mapped.type, param, code: mapped.code, ...rest } }
+  };
+};
+
+export function sendFormattedError(res: express.Response, format: ErrorFormat, type: string, message: string, details?: Record<string, unknown>) {
+  const { status, body } = format(type, message, details);
+  res.status(status).json(body);
+}
+
+/**
+ * Anthropic's error type for an upstream HTTP status. OpenRouter uses 402 for
+ * exhausted credits, 403 for moderation and 503 when no provider can serve
+ * the model; 408 and 502 are timeouts and failures on the provider's side.
+ */
+export function errorTypeForStatus(status: number): string {
+  switch (status) {
+    case 401:
+      return 'authentication_error';
+    case 402:
+      return 'billing_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 408:
+      return 'api_error';
+    case 413:
+      return 'request_too_large';
+    case 429:
+      return 'rate_limit_error';
+    case 503:
+    case 529:
+      return 'overloaded_error';
+  }
+  return status >= 400 && status < 500 ? 'invalid_request_error' : 'api_error';
+}
+
+/**
+ * Turns a failed upstream response into the error Anthropic would have
+ * returned. The upstream message is kept, along with OpenRouter's metadata
+ * (provider_name and the provider's raw error) when present. Bodies that
+ * aren't JSON, such as a proxy's HTML error page, are described by status.
+ */
+export async function translateUpstreamError(response: globalThis.Response): Promise<TranslatedError> {
+  const text = await response.text().catch(() => '');
+  let parsed: any = null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Not JSON; fall back to the status line below
+  }
+
+  const upstream = parsed?.error;
+  const message = (typeof upstream === 'string' ? upstream : upstream?.message)
+    || `Upstream returned HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+  const type = errorTypeForStatus(response.status);
+  const details = upstream?.metadata ? { metadata: upstream.metadata } : undefined;
+
+  return {
+    status: ERROR_STATUS[type],
+    body: errorBody(type, message, details),
+    retryAfter: type === 'rate_limit_error' ? response.headers.get('retry-after') : null
+  };
+}
+
+/**
+ * The error carried by a 2xx completion body, or null for a real completion.
+ * OpenRouter reports some failures with a 200: an error in place of the
+ * choices, or a choice with finish_reason "error" and its own error field.
+ * The error's code is the HTTP status it would have had, when numeric.
+ */
+export function translateCompletionError(completion: any): TranslatedError | null {
+  const choice = completion?.choices?.[0];
+  const upstream = completion?.error ?? choice?.error;
+  if (!upstream && choice && choice.finish_reason !== 'error') {
+    return null;
+  }
+
+  const type = typeof upstream?.code === 'number' ? errorTypeForStatus(upstream.code) : 'api_error';
+  const message = (typeof upstream === 'string' ? upstream : upstream?.message) || 'Upstream returned no completion';
+  const details = upstream?.metadata ? { metadata: upstream.metadata } : undefined;
+  return { status: ERROR_STATUS[type], body: errorBody(type, message, details), retryAfter: null };
+}
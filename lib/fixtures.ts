@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import path from 'path';
+import { OpenRouterRequest } from './request-handler';
+import { readJsonFile, writeJsonFile } from './storage';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * How much of the request must match a fixture:
+ * - strict: everything, including the provider and sampling parameters
+ * - normal: model, messages, tools, reasoning and streaming
+ * - loose: messages, tools and streaming, so fixtures survive routing changes
+ */
+export type FixtureMatch = 'strict' | 'normal' | 'loose';
+
+export interface FixtureChunk {
+  // Milliseconds after the response headers arrived
+  offsetMs: number;
+  // Raw body bytes, base64 encoded so split UTF-8 sequences survive
+  data: string;
+}
+
+export interface Fixture {
+  key: string;
+  match: FixtureMatch;
+  recordedAt: string;
+  provider: string;
+  request: OpenRouterRequest;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // Milliseconds from sending the request to receiving the headers
+    latencyMs: number;
+    chunks: FixtureChunk[];
+  };
+}
+
+const FIXTURE_MODE = process.env.FIXTURE_MODE as FixtureMode | undefined;
+const FIXTURES_DIR = process.env.FIXTURES_DIR || path.join(process.cwd(), 'fixtures');
+const FIXTURE_MATCH = (process.env.FIXTURE_MATCH || 'normal') as FixtureMatch;
+// Replay at recorded speed instead of as fast as possible
+const REPLAY_TIMING = process.env.FIXTURE_REPLAY_TIMING === 'true';
+
+if (FIXTURE_MODE && FIXTURE_MODE !== 'record' && FIXTURE_MODE !== 'replay') {
+  throw new Error(`Invalid FIXTURE_MODE: ${FIXTURE_MODE}. Use record or replay.`);
+}
+if (!['strict', 'normal', 'loose'].includes(FIXTURE_MATCH)) {
+  throw new Error(`Invalid FIXTURE_MATCH: ${FIXTURE_MATCH}. Use strict, normal or loose.`);
+}
+
+// Fields that identify a request at each strictness level; strict keeps everything
+const MATCHED_FIELDS: Record<Exclude<FixtureMatch, 'strict'>, Array<keyof OpenRouterRequest>> = {
+  normal: ['model', 'messages', 'tools', 'tool_choice', 'reasoning', 'stream'],
+  loose: ['messages', 'tools', 'tool_choice', 'stream']
+};
+
+// Sorts object keys and drops undefined values so equivalent requests serialize identically
+export function canonicalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => [key, canonicalize(value[key])])
+    );
+  }
+  return value;
+}
+
+export function normalizeRequest(provider: string, request: OpenRouterRequest, match: FixtureMatch): Record<string, unknown> {
+  if (match === 'strict') {
+    return canonicalize({ provider, ...request });
+  }
+  const normalized: Record<string, unknown> = {};
+  for (const field of MATCHED_FIELDS[match]) {
+    normalized[field] = request[field];
+  }
+  // A missing stream flag means a non-streaming request
+  normalized.stream = request.stream ?? false;
+  return canonicalize(normalized);
+}
+
+export function fixtureKey(provider: string, request: OpenRouterRequest, match: FixtureMatch = FIXTURE_MATCH): string {
+  const normalized = JSON.stringify(normalizeRequest(provider, request, match));
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 32);
+}
+
+export function getFixtureMode(): FixtureMode | undefined {
+  return FIXTURE_MODE;
+}
+
+function fixturePath(key: string): string {
+  return path.join(FIXTURES_DIR, `${key}.json`);
+}
+
+function recordableHeaders(headers: Headers): Record<string, string> {
+  const recorded: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    // Cookies and transfer framing don't apply to a replayed body
+    if (!['set-cookie', 'content-length', 'content-encoding', 'transfer-encoding', 'connection'].includes(name)) {
+      recorded[name] = value;
+    }
+  });
+  return recorded;
+}
+
+/**
+ * Passes the upstream response through unchanged while saving its status,
+ * headers and body chunks, with their timing, as a fixture. The fixture is
+ * written once the body has been read to the end; a cancelled body (e.g. a
+ * failed attempt that is about to be retried) is not recorded.
+ */
+export function recordResponse(provider: string, request: OpenRouterRequest, response: globalThis.Response, latencyMs: number): globalThis.Response {
+  const key = fixtureKey(provider, request);
+  const headersAt = performance.now();
+  const chunks: FixtureChunk[] = [];
+  const reader = response.body?.getReader();
+
+  const save = () => {
+    const fixture: Fixture = {
+      key,
+      match: FIXTURE_MATCH,
+      recordedAt: new Date().toISOString(),
+      provider,
+      request,
+      response: {
+        status: response.status,
+        headers: recordableHeaders(response.headers),
+        latencyMs: Math.round(latencyMs),
+        chunks
+      }
+    };
+    try {
+      writeJsonFile(fixturePath(key), fixture);
+    } catch (error) {
+      console.error(`Failed to write fixture ${key}:`, error);
+    }
+  };
+
+  if (!reader) {
+    save();
+    return response;
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        save();
+        controller.close();
+        return;
+      }
+      chunks.push({
+        offsetMs: Math.round(performance.now() - headersAt),
+        data: Buffer.from(value).toString('base64')
+      });
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Serves a recorded response for the request. A request without a fixture
+ * gets a 404, which the upstream layer treats like a missing model and falls
+ * back from, so nothing ever reaches the network in replay mode.
+ */
+export async function replayResponse(provider: string, request: OpenRouterRequest): Promise<globalThis.Response> {
+  const key = fixtureKey(provider, request);
+  const fixture = readJsonFile<Fixture>(fixturePath(key));
+  if (!fixture) {
+    return new Response(JSON.stringify({
+      error: { message: `No fixture recorded for this request (${key}, ${FIXTURE_MATCH} match) in ${FIXTURES_DIR}` }
+    }), { status: 404, headers: { 'content-type': 'application/json' } });
+  }
+
+  if (REPLAY_TIMING) {
+    await sleep(fixture.response.latencyMs);
+  }
+
+  const chunks = fixture.response.chunks;
+  let index = 0;
+  const startedAt = performance.now();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= chunks.length) {
+        controller.close();
+        return;
+      }
+      const chunk = chunks[index++];
+      if (REPLAY_TIMING) {
+        await sleep(Math.max(0, chunk.offsetMs - (performance.now() - startedAt)));
+      }
+      controller.enqueue(new Uint8Array(Buffer.from(chunk.data, 'base64')));
+    }
+  });
+
+  return new Response(body, { status: fixture.response.status, headers: fixture.response.headers });
+}
+
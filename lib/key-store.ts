@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { hashApiKey } from './auth';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+
+export interface KeyRateLimits {
+  requestsPerMinute?: number;
+  inputTokensPerMinute?: number;
+  outputTokensPerMinute?: number;
+  // Input plus output tokens per UTC day and calendar month
+  dailyTokens?: number;
+  monthlyTokens?: number;
+}
+
+// USD per UTC day and calendar month
+export interface KeySpendLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  owner?: string;
+  // SHA-256 of the key; the plaintext is never stored
+  keyHash: string;
+  // First characters of the key, for telling keys apart in listings
+  keyPrefix: string;
+  createdAt: string;
+  expiresAt?: string | null;
+  enabled: boolean;
+  // Exact names, globs or regex literals; empty or missing allows every model
+  allowedModels?: string[];
+  rateLimits?: KeyRateLimits;
+  spendLimits?: KeySpendLimits;
+}
+
+// A number sets a limit, null resets it to the server default and a field
+// that is left out keeps its current value
+export type LimitChanges<T> = { [K in keyof T]?: T[K] | null };
+
+export interface NewApiKey {
+  name: string;
+  owner?: string;
+  expiresAt?: string | null;
+  allowedModels?: string[];
+  rateLimits?: LimitChanges<KeyRateLimits>;
+  spendLimits?: LimitChanges<KeySpendLimits>;
+}
+
+export type KeyChanges = Partial<Omit<ApiKeyRecord, 'id' | 'keyHash' | 'keyPrefix' | 'createdAt' | 'rateLimits' | 'spendLimits'>> & {
+  rateLimits?: LimitChanges<KeyRateLimits>;
+  spendLimits?: LimitChanges<KeySpendLimits>;
+};
+
+interface KeyStoreFile {
+  keys: ApiKeyRecord[];
+}
+
+const KEY_STORE_PATH = process.env.KEY_STORE_PATH || dataPath('keys.json');
+const KEY_PREFIX = 'sk-ar-';
+
+let records: ApiKeyRecord[] = [];
+let byHash = new Map<string, ApiKeyRecord>();
+let loadedMtime = -1;
+
+// Reload when the file changes so keys managed by the CLI apply without a restart
+function load() {
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(KEY_STORE_PATH).mtimeMs;
+  } catch {
+    // No store yet
+  }
+  if (mtime === loadedMtime) {
+    return;
+  }
+
+  records = readJsonFile<KeyStoreFile>(KEY_STORE_PATH)?.keys || [];
+  byHash = new Map(records.map(record => [record.keyHash, record]));
+  loadedMtime = mtime;
+}
+
+function save() {
+  writeJsonFile(KEY_STORE_PATH, { keys: records });
+  loadedMtime = fs.statSync(KEY_STORE_PATH).mtimeMs;
+  byHash = new Map(records.map(record => [record.keyHash, record]));
+}
+
+function generateKey(): string {
+  return KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+export function findKeyByHash(keyHash: string): ApiKeyRecord | undefined {
+  load();
+  return byHash.get(keyHash);
+}
+
+export function isKeyActive(record: ApiKeyRecord): boolean {
+  if (!record.enabled) {
+    return false;
+  }
+  return !record.expiresAt || Date.parse(record.expiresAt) > Date.now();
+}
+
+export function listKeys(): ApiKeyRecord[] {
+  load();
+  return [...records];
+}
+
+export function getKey(id: string): ApiKeyRecord | undefined {
+  load();
+  return records.find(record => record.id === id);
+}
+
+function mergeLimits<T extends object>(current: T | undefined, changes: LimitChanges<T>): T {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete merged[field];
+    } else if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+  return merged as T;
+}
+
+// Returns the plaintext key alongside the record; it cannot be recovered later
+export function createKey(options: NewApiKey): { record: ApiKeyRecord; key: string } {
+  load();
+  const key = generateKey();
+  const record: ApiKeyRecord = {
+    id: `key_${crypto.randomBytes(8).toString('hex')}`,
+    name: options.name,
+    owner: options.owner,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX.length + 4),
+    createdAt: new Date().toISOString(),
+    expiresAt: options.expiresAt ?? null,
+    enabled: true,
+    allowedModels: options.allowedModels,
+    rateLimits: options.rateLimits && mergeLimits(undefined, options.rateLimits),
+    spendLimits: options.spendLimits && mergeLimits(undefined, options.spendLimits)
+  };
+  records.push(record);
+  save();
+  return { record, key };
+}
+
+// Limits are merged field by field, so an update only touches the limits it names
+export function updateKey(id: string, changes: KeyChanges): ApiKeyRecord | undefined {
+  load();
+  const record = records.find(r => r.id === id);
+  if (!record) {
+    return undefined;
+  }
+  const { rateLimits, spendLimits, ...rest } = changes;
+  Object.assign(record, rest);
+  if (rateLimits) {
+    record.rateLimits = mergeLimits(record.rateLimits, rateLimits);
+  }
+  if (spendLimits) {
+    record.spendLimits = mergeLimits(record.spendLimits, spendLimits);
+  }
+  save();
+  return record;
+}
+
+// Replaces the secret while keeping the key's id, metadata and limits
+export function rotateKey(id: string): { record: ApiKeyRecord; key: string } | undefined {
+  load();
+  const record = records.find(r => r.id === id);
+  if (!record) {
+    return undefined;
+  }
+  const key = generateKey();
+  record.keyHash = hashApiKey(key);
+  record.keyPrefix = key.slice(0, KEY_PREFIX.length + 4);
+  save();
+  return { record, key };
+}
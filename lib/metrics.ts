@@ -0,0 +1,232 @@
+import express from 'express';
+
+type Labels = Record<string, string | undefined>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(names: string[], values: string[], extra = ''): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) {
+    pairs.push(extra);
+  }
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Base for labelled metrics. Series are keyed by their label values in
+ * labelNames order; labels missing from an update are recorded as "".
+ */
+abstract class LabelledMetric<T> implements Metric {
+  protected series = new Map<string, { values: string[]; state: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram',
+    readonly labelNames: string[] = []
+  ) {
+    registry.push(this);
+  }
+
+  protected abstract initialState(): T;
+  protected abstract renderSeries(values: string[], state: T): string[];
+
+  protected get(labels: Labels): T {
+    const values = this.labelNames.map(name => labels[name] ?? '');
+    const key = JSON.stringify(values);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: this.initialState() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { values, state } of this.series.values()) {
+      lines.push(...this.renderSeries(values, state));
+    }
+    return lines;
+  }
+}
+
+export class Counter extends LabelledMetric<{ value: number }> {
+  constructor(name: string, help: string, labelNames?: string[]) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    this.get(labels).value += amount;
+  }
+
+  protected renderSeries(values: string[], state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, values)} ${state.value}`];
+  }
+}
+
+export class Gauge extends LabelledMetric<{ value: number }> {
+  constructor(name: string, help: string, labelNames?: string[]) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    this.get(labels).value += amount;
+  }
+
+  dec(labels: Labels = {}, amount = 1) {
+    this.get(labels).value -= amount;
+  }
+
+  protected renderSeries(values: string[], state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, values)} ${state.value}`];
+  }
+}
+
+interface HistogramState {
+  // Per-bucket counts; rendered cumulatively as Prometheus expects
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramState> {
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, 'histogram', labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  protected initialState(): HistogramState {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels, value: number) {
+    const state = this.get(labels);
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) {
+      state.counts[index]++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  protected renderSeries(values: string[], state: HistogramState): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += state.counts[i];
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="${bound}"`)} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${state.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${state.sum}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${state.count}`);
+    return lines;
+  }
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const DURATION_BUCKETS = [1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+export const requestsTotal = new Counter(
+  'anthrorouter_requests_total',
+  'Completed requests by route, requested model, upstream and HTTP status.',
+  ['route', 'model', 'provider', 'upstream_model', 'status']
+);
+
+export const requestsInFlight = new Gauge(
+  'anthrorouter_requests_in_flight',
+  'Requests currently being handled, including open streams.'
+);
+
+export const upstreamLatency = new Histogram(
+  'anthrorouter_upstream_latency_seconds',
+  'Time from sending an upstream request to receiving its response headers, per attempt.',
+  ['provider', 'upstream_model'],
+  LATENCY_BUCKETS
+);
+
+export const timeToFirstToken = new Histogram(
+  'anthrorouter_time_to_first_token_seconds',
+  'Time from receiving a streaming request to sending its first content delta.',
+  ['model', 'provider', 'upstream_model'],
+  LATENCY_BUCKETS
+);
+
+export const streamDuration = new Histogram(
+  'anthrorouter_stream_duration_seconds',
+  'Time from the start to the end of a streamed response.',
+  ['model', 'provider', 'upstream_model'],
+  DURATION_BUCKETS
+);
+
+export const inputTokensTotal = new Counter(
+  'anthrorouter_input_tokens_total',
+  'Input tokens reported by upstreams.',
+  ['model', 'provider', 'upstream_model']
+);
+
+export const outputTokensTotal = new Counter(
+  'anthrorouter_output_tokens_total',
+  'Output tokens reported by upstreams.',
+  ['model', 'provider', 'upstream_model']
+);
+
+export const rateLimitRejections = new Counter(
+  'anthrorouter_rate_limit_rejections_total',
+  'Requests rejected by rate limits, quotas or spend limits, by the limit that was hit.',
+  ['limit']
+);
+
+export const responseCacheLookups = new Counter(
+  'anthrorouter_response_cache_lookups_total',
+  'Response cache lookups by result: hit, miss or bypass.',
+  ['result']
+);
+
+export function renderMetrics(): string {
+  return registry.flatMap(metric => metric.render()).join('\n') + '\n';
+}
+
+// Seconds elapsed since a performance.now() timestamp
+export function secondsSince(start: number): number {
+  return (performance.now() - start) / 1000;
+}
+
+/**
+ * Counts every request once it has been answered (or the client went away).
+ * Handlers add model and upstream labels through res.locals.routeInfo, which the
+ * request log shares.
+ */
+export function trackRequests(req: express.Request, res: express.Response, next: express.NextFunction) {
+  requestsInFlight.inc();
+
+  res.on('close', () => {
+    requestsInFlight.dec();
+    // The matched route pattern rather than the path keeps label cardinality bounded
+    const route = req.route ? req.baseUrl + req.route.path : 'unmatched';
+    requestsTotal.inc({ route, status: String(res.statusCode), ...res.locals.routeInfo });
+  });
+  next();
+}
+
+export function metricsHandler(req: express.Request, res: express.Response) {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+}
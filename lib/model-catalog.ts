@@ -0,0 +1,148 @@
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import snapshot from './models-snapshot.json';
+
+export interface CatalogModel {
+  id: string;
+  name: string;
+  created: number;
+  context_length?: number;
+  pricing?: {
+    prompt?: string;
+    completion?: string;
+    input_cache_read?: string;
+    input_cache_write?: string;
+    internal_reasoning?: string;
+    [key: string]: string | undefined;
+  };
+}
+
+interface CachedCatalog {
+  fetchedAt: number;
+  models: CatalogModel[];
+}
+
+export interface AnthropicModel {
+  type: 'model';
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+export interface ModelListParams {
+  after_id?: string;
+  before_id?: string;
+  limit?: number;
+}
+
+const CATALOG_URL = 'https://openrouter.ai/api/v1/models';
+const CACHE_PATH = process.env.MODELS_CACHE_PATH || dataPath('models.json');
+const REFRESH_INTERVAL = Number(process.env.MODELS_REFRESH_INTERVAL_MS) || 6 * 60 * 60 * 1000; // 6 hours
+const RETRY_INTERVAL = 5 * 60 * 1000; // Retry a failed refresh after 5 minutes
+const FETCH_TIMEOUT = 10 * 1000;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 1000;
+
+let catalog: CachedCatalog | null = null;
+let refreshing: Promise<CachedCatalog> | null = null;
+
+/**
+ * Returns the OpenRouter model catalog, refreshing it from upstream when the
+ * in-memory or on-disk copy is older than the refresh interval. Falls back to
+ * a stale copy, then to the bundled snapshot, when OpenRouter can't be reached.
+ */
+export async function getModelCatalog(): Promise<CatalogModel[]> {
+  if (!catalog) {
+    catalog = readJsonFile<CachedCatalog>(CACHE_PATH);
+  }
+
+  if (catalog && Date.now() - catalog.fetchedAt < REFRESH_INTERVAL) {
+    return catalog.models;
+  }
+
+  // Share one upstream fetch between concurrent callers
+  if (!refreshing) {
+    refreshing = refreshCatalog().finally(() => {
+      refreshing = null;
+    });
+  }
+  return (await refreshing).models;
+}
+
+export async function findModel(id: string): Promise<CatalogModel | undefined> {
+  const models = await getModelCatalog();
+  return models.find(model => model.id === id);
+}
+
+async function refreshCatalog(): Promise<CachedCatalog> {
+  try {
+    const response = await fetch(CATALOG_URL, {
+      headers: process.env.OPENROUTER_API_KEY
+        ? { 'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}` }
+        : {},
+      signal: AbortSignal.timeout(FETCH_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new Error(`Model catalog request failed with status ${response.status}`);
+    }
+
+    const body = await response.json() as { data: CatalogModel[] };
+    catalog = { fetchedAt: Date.now(), models: body.data };
+    try {
+      writeJsonFile(CACHE_PATH, catalog);
+    } catch (error) {
+      // The in-memory copy still serves requests
+      console.error('Failed to write model catalog cache:', error);
+    }
+    return catalog;
+  } catch (error) {
+    console.error('Failed to refresh model catalog:', error);
+    // Serve the stale copy (or the bundled snapshot) and retry upstream later
+    catalog = {
+      fetchedAt: Date.now() - REFRESH_INTERVAL + RETRY_INTERVAL,
+      models: catalog?.models ?? snapshot.data
+    };
+    return catalog;
+  }
+}
+
+export function toAnthropicModel(model: CatalogModel): AnthropicModel {
+  return {
+    type: 'model',
+    id: model.id,
+    display_name: model.name || model.id,
+    created_at: new Date(model.created * 1000).toISOString()
+  };
+}
+
+export async function listModels(params: ModelListParams) {
+  return paginateModels(await getModelCatalog(), params);
+}
+
+// Pages through models newest first, mirroring Anthropic's list semantics
+export function paginateModels(catalogModels: CatalogModel[], params: ModelListParams) {
+  const models = [...catalogModels].sort((a, b) => b.created - a.created);
+  const limit = Math.min(Math.max(params.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let page: CatalogModel[];
+  let hasMore: boolean;
+  if (params.before_id) {
+    const end = models.findIndex(model => model.id === params.before_id);
+    const stop = end === -1 ? 0 : end;
+    const start = Math.max(0, stop - limit);
+    page = models.slice(start, stop);
+    hasMore = start > 0;
+  } else {
+    const after = params.after_id ? models.findIndex(model => model.id === params.after_id) : -1;
+    const start = params.after_id && after === -1 ? models.length : after + 1;
+    page = models.slice(start, start + limit);
+    hasMore = start + limit < models.length;
+  }
+
+  return {
+    data: page.map(toAnthropicModel),
+    has_more: hasMore,
+    first_id: page[0]?.id ?? null,
+    last_id: page[page.length - 1]?.id ?? null
+  };
+}
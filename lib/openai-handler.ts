@@ -0,0 +1,359 @@
+import { Response } from 'express';
+import { openAIErrors } from './errors';
+import { OpenRouterMessage, OpenRouterRequest, OpenRouterResponse, OpenRouterUsage } from './request-handler';
+import { ResolvedRoute, resolveModel } from './routing';
+import { SSEMessage, SSEParser } from './sse-parser';
+import { fromOpenRouterUsage, RequestUsage } from './usage';
+
+/**
+ * Inbound OpenAI Chat Completions requests. The upstream already speaks this
+ * dialect, so requests are mostly passed through: the model goes through the
+ * routing table and only the fields the proxy understands are forwarded.
+ */
+
+export interface OpenAIChatMessage {
+  // developer is OpenAI's newer name for system
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content: OpenRouterMessage['content'];
+  name?: string;
+  tool_calls?: OpenRouterMessage['tool_calls'];
+  tool_call_id?: string;
+}
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens?: number;
+  // Replaces max_tokens for OpenAI reasoning models
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: OpenRouterRequest['tools'];
+  tool_choice?: OpenRouterRequest['tool_choice'];
+  parallel_tool_calls?: boolean;
+  reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high';
+  response_format?: OpenRouterRequest['response_format'];
+  seed?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+}
+
+export interface ChatStreamOptions {
+  // Model name reported back to the client
+  model: string;
+  // Local prompt estimate, used when the upstream reports no usage
+  inputTokens: number;
+  // Whether the client asked for the final usage chunk
+  includeUsage: boolean;
+  // Called once, when the first content delta is written to the client
+  onFirstToken?: () => void;
+}
+
+export interface ChatStreamResult {
+  usage: RequestUsage;
+  // The streamed completion as a non-streaming response would have returned it
+  completion: OpenRouterResponse;
+}
+
+export interface ChatRequestProblem {
+  // The offending parameter, reported as OpenAI's error.param
+  param: string;
+  message: string;
+}
+
+// Checks the fields the handler relies on, so a malformed request gets
+// OpenAI's 400 rather than failing while it is translated
+export function checkChatRequest(body: any): ChatRequestProblem | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { param: '', message: 'Request body must be a JSON object.' };
+  }
+  if (body.model === undefined) {
+    return { param: 'model', message: 'You must provide a model parameter.' };
+  }
+  if (typeof body.model !== 'string') {
+    return { param: 'model', message: `Invalid type for 'model': expected a string, but got ${typeName(body.model)} instead.` };
+  }
+  if (body.messages === undefined) {
+    return { param: 'messages', message: "Missing required parameter: 'messages'." };
+  }
+  if (!Array.isArray(body.messages)) {
+    return { param: 'messages', message: `Invalid type for 'messages': expected an array of objects, but got ${typeName(body.messages)} instead.` };
+  }
+  if (body.messages.length === 0) {
+    return { param: 'messages', message: "Invalid 'messages': empty array. Expected an array with minimum length 1." };
+  }
+  for (const [index, message] of body.messages.entries()) {
+    if (typeof message !== 'object' || message === null || typeof message.role !== 'string') {
+      return { param: `messages[${index}]`, message: `Invalid 'messages[${index}]': expected an object with a string role.` };
+    }
+  }
+  return null;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
+
+export class OpenAIRequestHandler {
+  private request: OpenAIChatRequest;
+  readonly route: ResolvedRoute;
+
+  constructor(request: OpenAIChatRequest) {
+    this.request = request;
+    this.route = resolveModel(request.model);
+  }
+
+  // Model name reported back to the client, per the routing config
+  get responseModel(): string {
+    return this.route.responseModel;
+  }
+
+  get includeUsage(): boolean {
+    return this.request.stream_options?.include_usage ?? false;
+  }
+
+  transformToOpenRouter(): OpenRouterRequest {
+    const request = this.request;
+    const routeParams = this.route.params;
+
+    const messages: OpenRouterMessage[] = request.messages.map(message => {
+      const { role, name, ...rest } = message;
+      // Ollama and most compatible servers only know the system role
+      return { ...rest, role: role === 'developer' ? 'system' : role };
+    });
+
+    const openRouterRequest: OpenRouterRequest = {
+      model: this.route.model,
+      messages,
+      stream: request.stream ?? false,
+      usage: { include: true }
+    };
+
+    // Usage is always requested for accounting; it is stripped again for
+    // clients that didn't ask for it
+    if (openRouterRequest.stream) {
+      openRouterRequest.stream_options = { include_usage: true };
+    }
+
+    const maxTokens = request.max_completion_tokens ?? request.max_tokens;
+    if (maxTokens !== undefined) {
+      openRouterRequest.max_tokens = maxTokens;
+    }
+    if (request.temperature !== undefined) {
+      openRouterRequest.temperature = request.temperature;
+    }
+    if (request.top_p !== undefined) {
+      openRouterRequest.top_p = request.top_p;
+    }
+
+    // Apply per-route overrides
+    if (routeParams.max_tokens !== undefined) {
+      openRouterRequest.max_tokens = Math.min(openRouterRequest.max_tokens ?? routeParams.max_tokens, routeParams.max_tokens);
+    }
+    if (routeParams.temperature !== undefined) {
+      openRouterRequest.temperature = routeParams.temperature;
+    }
+    if (routeParams.top_p !== undefined) {
+      openRouterRequest.top_p = routeParams.top_p;
+    }
+
+    if (request.stop !== undefined) {
+      openRouterRequest.stop = typeof request.stop === 'string' ? [request.stop] : request.stop;
+    }
+    if (request.tools && request.tools.length > 0) {
+      openRouterRequest.tools = request.tools;
+    }
+    if (request.tool_choice !== undefined) {
+      openRouterRequest.tool_choice = request.tool_choice;
+    }
+    if (request.parallel_tool_calls !== undefined) {
+      openRouterRequest.parallel_tool_calls = request.parallel_tool_calls;
+    }
+    if (request.reasoning_effort) {
+      openRouterRequest.reasoning = { effort: request.reasoning_effort === 'minimal' ? 'low' : request.reasoning_effort };
+    }
+    if (request.response_format !== undefined) {
+      openRouterRequest.response_format = request.response_format;
+    }
+    if (request.seed !== undefined) {
+      openRouterRequest.seed = request.seed;
+    }
+    if (request.frequency_penalty !== undefined) {
+      openRouterRequest.frequency_penalty = request.frequency_penalty;
+    }
+    if (request.presence_penalty !== undefined) {
+      openRouterRequest.presence_penalty = request.presence_penalty;
+    }
+
+    return openRouterRequest;
+  }
+
+  transformResponse(openRouterResponse: OpenRouterResponse): OpenRouterResponse {
+    return { ...openRouterResponse, model: this.responseModel };
+  }
+}
+
+// Rebuilds the complete response from stream chunks, for prompt capture
+class CompletionAccumulator {
+  private completion: OpenRouterResponse | null = null;
+
+  add(chunk: any) {
+    if (!this.completion) {
+      this.completion = {
+        id: chunk.id,
+        object: 'chat.completion',
+        created: chunk.created,
+        model: chunk.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: null }, finish_reason: '' }]
+      };
+    }
+    if (chunk.usage) {
+      this.completion.usage = chunk.usage;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return;
+    }
+    const message = this.completion.choices[0].message;
+    const delta = choice.delta || {};
+    if (delta.content) {
+      message.content = (message.content ?? '') + delta.content;
+    }
+    if (delta.reasoning) {
+      message.reasoning = (message.reasoning ?? '') + delta.reasoning;
+    }
+    for (const toolCall of delta.tool_calls || []) {
+      message.tool_calls ??= [];
+      const existing = message.tool_calls[toolCall.index ?? 0];
+      if (existing) {
+        existing.function.arguments += toolCall.function?.arguments ?? '';
+      } else {
+        message.tool_calls[toolCall.index ?? 0] = {
+          id: toolCall.id,
+          type: 'function',
+          function: { name: toolCall.function?.name ?? '', arguments: toolCall.function?.arguments ?? '' }
+        };
+      }
+    }
+    if (choice.finish_reason) {
+      this.completion.choices[0].finish_reason = choice.finish_reason;
+    }
+  }
+
+  get result(): OpenRouterResponse | null {
+    return this.completion;
+  }
+}
+
+function hasContent(chunk: any): boolean {
+  const delta = chunk.choices?.[0]?.delta;
+  return Boolean(delta && (delta.content || delta.reasoning || delta.tool_calls?.length));
+}
+
+/**
+ * Relays an upstream Chat Completions stream to the client, rewriting the
+ * model name in every chunk. The final usage chunk is always requested from
+ * the upstream for accounting, and only forwarded when the client asked for
+ * it with stream_options.include_usage.
+ */
+export async function relayChatStream(upstreamResponse: globalThis.Response, expressRes: Response, options: ChatStreamOptions): Promise<ChatStreamResult> {
+  expressRes.setHeader('Content-Type', 'text/event-stream');
+  expressRes.setHeader('Cache-Control', 'no-cache');
+  expressRes.setHeader('Connection', 'keep-alive');
+  expressRes.setHeader('X-Accel-Buffering', 'no');
+
+  const reader = upstreamResponse.body?.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  const accumulator = new CompletionAccumulator();
+  let upstreamUsage: OpenRouterUsage | undefined;
+  let sentFirstToken = false;
+  let failed = false;
+
+  const handleMessages = (messages: SSEMessage[]) => {
+    for (const message of messages) {
+      if (message.type === 'comment') {
+        expressRes.write(`: ${message.comment}\n\n`);
+        continue;
+      }
+      // [DONE] is written once the upstream stream has ended
+      if (message.data === '[DONE]') {
+        continue;
+      }
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(message.data);
+      } catch (e) {
+        // Skip invalid JSON
+        console.error('Failed to parse stream chunk:', e);
+        continue;
+      }
+
+      chunk.model = options.model;
+      accumulator.add(chunk);
+      if (chunk.usage) {
+        upstreamUsage = chunk.usage;
+        if (!options.includeUsage) {
+          if (!chunk.choices?.length) {
+            continue;
+          }
+          delete chunk.usage;
+        }
+      }
+      if (!sentFirstToken && hasContent(chunk)) {
+        sentFirstToken = true;
+        options.onFirstToken?.();
+      }
+      expressRes.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+  };
+
+  try {
+    if (!reader) {
+      throw new Error('Upstream response has no body');
+    }
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      handleMessages(parser.push(decoder.decode(value, { stream: true })));
+    }
+
+    handleMessages(parser.push(decoder.decode()));
+    handleMessages(parser.flush());
+  } catch (error) {
+    console.error('Streaming error:', error);
+    // OpenAI clients raise on a chunk carrying an error, so the stream doesn't
+    // pass for a complete one
+    failed = true;
+    const { body } = openAIErrors('api_error', 'Upstream stream was interrupted');
+    expressRes.write(`data: ${JSON.stringify(body)}\n\n`);
+  } finally {
+    if (!failed) {
+      expressRes.write('data: [DONE]\n\n');
+    }
+    expressRes.end();
+  }
+
+  const usage = fromOpenRouterUsage(upstreamUsage);
+  if (!upstreamUsage) {
+    usage.inputTokens = options.inputTokens;
+  }
+  const completion = accumulator.result ?? {
+    id: '',
+    object: 'chat.completion',
+    created: 0,
+    model: options.model,
+    choices: []
+  };
+  return { usage, completion };
+}
@@ -0,0 +1,204 @@
+import { OpenRouterMessage, OpenRouterRequest } from './request-handler';
+
+export type ProviderType = 'openrouter' | 'openai' | 'ollama' | 'openai-compatible';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl?: string;
+  // Literal key, or the name of an environment variable holding it
+  apiKey?: string;
+  apiKeyEnv?: string;
+  authScheme?: 'bearer' | 'x-api-key' | 'none';
+  headers?: Record<string, string>;
+}
+
+/**
+ * An OpenAI Chat Completions compatible upstream. Requests are always built
+ * in OpenRouter's dialect; each provider strips or renames what its API
+ * doesn't understand.
+ */
+export interface UpstreamProvider {
+  readonly name: string;
+  chatCompletionsUrl(): string;
+  headers(): Record<string, string>;
+  prepareRequest(request: OpenRouterRequest): Record<string, any>;
+}
+
+export class OpenAICompatibleProvider implements UpstreamProvider {
+  readonly name: string;
+  protected config: ProviderConfig;
+
+  constructor(name: string, config: ProviderConfig) {
+    this.name = name;
+    this.config = config;
+  }
+
+  protected get baseUrl(): string {
+    if (!this.config.baseUrl) {
+      throw new Error(`Provider ${this.name} has no baseUrl configured`);
+    }
+    return this.config.baseUrl;
+  }
+
+  protected get apiKey(): string | undefined {
+    if (this.config.apiKeyEnv) {
+      return process.env[this.config.apiKeyEnv];
+    }
+    return this.config.apiKey;
+  }
+
+  chatCompletionsUrl(): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers
+    };
+
+    const apiKey = this.apiKey;
+    const scheme = this.config.authScheme || 'bearer';
+    if (apiKey && scheme === 'bearer') {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    } else if (apiKey && scheme === 'x-api-key') {
+      headers['x-api-key'] = apiKey;
+    }
+    return headers;
+  }
+
+  prepareRequest(request: OpenRouterRequest): Record<string, any> {
+    // reasoning, reasoning_details, usage and cache_control are OpenRouter extensions
+    const { reasoning, usage, ...rest } = request;
+    return {
+      ...rest,
+      messages: request.messages.map(({ reasoning_details, ...message }) => ({
+        ...message,
+        content: withoutCacheControl(message.content)
+      }))
+    };
+  }
+}
+
+// Text-only content goes back to a plain string once its breakpoints are gone
+function withoutCacheControl(content: OpenRouterMessage['content']): OpenRouterMessage['content'] {
+  if (!Array.isArray(content)) {
+    return content;
+  }
+  const parts = content.map(part => (part.type === 'text' ? { type: part.type, text: part.text } : part));
+  if (parts.every(part => part.type === 'text')) {
+    return parts.map(part => (part as { text: string }).text).join('\n');
+  }
+  return parts;
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  protected get baseUrl(): string {
+    return this.config.baseUrl || process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
+  }
+
+  protected get apiKey(): string | undefined {
+    return super.apiKey ?? process.env.OPENROUTER_API_KEY;
+  }
+
+  headers(): Record<string, string> {
+    return {
+      ...super.headers(),
+      'HTTP-Referer': process.env.SITE_URL || 'http://localhost:3000',
+      'X-Title': 'Anthropic Proxy'
+    };
+  }
+
+  prepareRequest(request: OpenRouterRequest): Record<string, any> {
+    return request;
+  }
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  protected get baseUrl(): string {
+    return this.config.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+  }
+
+  protected get apiKey(): string | undefined {
+    return super.apiKey ?? process.env.OPENAI_API_KEY;
+  }
+
+  prepareRequest(request: OpenRouterRequest): Record<string, any> {
+    const { max_tokens, ...prepared } = super.prepareRequest(request);
+
+    // Newer OpenAI models reject max_tokens in favor of max_completion_tokens
+    if (max_tokens !== undefined) {
+      prepared.max_completion_tokens = max_tokens;
+    }
+    if (request.reasoning && request.reasoning.enabled !== false) {
+      prepared.reasoning_effort = request.reasoning.effort || budgetToEffort(request.reasoning.max_tokens);
+    }
+    return prepared;
+  }
+}
+
+export class OllamaProvider extends OpenAICompatibleProvider {
+  protected get baseUrl(): string {
+    return this.config.baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1';
+  }
+
+  prepareRequest(request: OpenRouterRequest): Record<string, any> {
+    // Ollama's OpenAI endpoint doesn't support forcing or serializing tool calls
+    const { tool_choice, parallel_tool_calls, ...prepared } = super.prepareRequest(request);
+    return prepared;
+  }
+}
+
+function budgetToEffort(budgetTokens: number | undefined): 'low' | 'medium' | 'high' {
+  if (!budgetTokens || budgetTokens < 4096) {
+    return 'low';
+  }
+  return budgetTokens < 16384 ? 'medium' : 'high';
+}
+
+const BUILT_IN_PROVIDERS: Record<string, ProviderConfig> = {
+  openrouter: { type: 'openrouter' },
+  openai: { type: 'openai' },
+  ollama: { type: 'ollama' }
+};
+
+export const DEFAULT_PROVIDER = 'openrouter';
+
+let providers = new Map<string, UpstreamProvider>();
+
+export function createProvider(name: string, config: ProviderConfig): UpstreamProvider {
+  switch (config.type) {
+    case 'openrouter':
+      return new OpenRouterProvider(name, config);
+    case 'openai':
+      return new OpenAIProvider(name, config);
+    case 'ollama':
+      return new OllamaProvider(name, config);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(name, config);
+    default:
+      throw new Error(`Unknown provider type for ${name}: ${(config as ProviderConfig).type}`);
+  }
+}
+
+// Built-in providers can be overridden by name, e.g. to point ollama elsewhere
+export function configureProviders(configs: Record<string, ProviderConfig> = {}) {
+  const merged = { ...BUILT_IN_PROVIDERS, ...configs };
+  providers = new Map(
+    Object.entries(merged).map(([name, config]) => [name, createProvider(name, config)])
+  );
+}
+
+export function hasProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+export function getProvider(name: string): UpstreamProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown upstream provider: ${name}`);
+  }
+  return provider;
+}
+
+configureProviders();
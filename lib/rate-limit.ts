@@ -0,0 +1,272 @@
+import { ApiKeyRecord, KeyRateLimits } from './key-store';
+import { nextPeriodStart, readUsage, usagePeriods } from './usage';
+
+const MINUTE = 60 * 1000;
+
+// Defaults for keys without their own limits; 0 means unlimited
+const DEFAULT_LIMITS: Required<KeyRateLimits> = {
+  requestsPerMinute: Number(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE ?? 100),
+  inputTokensPerMinute: Number(process.env.RATE_LIMIT_INPUT_TOKENS_PER_MINUTE ?? 0),
+  outputTokensPerMinute: Number(process.env.RATE_LIMIT_OUTPUT_TOKENS_PER_MINUTE ?? 0),
+  dailyTokens: Number(process.env.QUOTA_DAILY_TOKENS ?? 0),
+  monthlyTokens: Number(process.env.QUOTA_MONTHLY_TOKENS ?? 0)
+};
+
+/**
+ * Continuously refilling bucket: holds up to `capacity` tokens and refills
+ * at capacity per minute. Usage reported after the fact may take it below
+ * zero, which delays the next request until the debt is repaid.
+ */
+class TokenBucket {
+  capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.tokens = capacity;
+    this.updatedAt = Date.now();
+  }
+
+  resize(capacity: number) {
+    if (capacity !== this.capacity) {
+      this.tokens = Math.min(this.tokens, capacity);
+      this.capacity = capacity;
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / MINUTE);
+    this.updatedAt = now;
+  }
+
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  take(amount: number) {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  msUntil(amount: number): number {
+    const missing = amount - this.available;
+    return missing <= 0 ? 0 : Math.ceil(missing * MINUTE / this.capacity);
+  }
+}
+
+interface KeyLimiterState {
+  requests: TokenBucket;
+  inputTokens: TokenBucket;
+  outputTokens: TokenBucket;
+  quota: {
+    day: string;
+    dayTokens: number;
+    month: string;
+    monthTokens: number;
+  } | null;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until the request could succeed, for retry-after
+  retryAfter?: number;
+  // The limit that was hit, named like its admin API field
+  limit?: string;
+  message?: string;
+  headers: Record<string, string>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const limiters = new Map<string, KeyLimiterState>();
+
+export function effectiveLimits(record: ApiKeyRecord): Required<KeyRateLimits> {
+  return {
+    requestsPerMinute: record.rateLimits?.requestsPerMinute ?? DEFAULT_LIMITS.requestsPerMinute,
+    inputTokensPerMinute: record.rateLimits?.inputTokensPerMinute ?? DEFAULT_LIMITS.inputTokensPerMinute,
+    outputTokensPerMinute: record.rateLimits?.outputTokensPerMinute ?? DEFAULT_LIMITS.outputTokensPerMinute,
+    dailyTokens: record.rateLimits?.dailyTokens ?? DEFAULT_LIMITS.dailyTokens,
+    monthlyTokens: record.rateLimits?.monthlyTokens ?? DEFAULT_LIMITS.monthlyTokens
+  };
+}
+
+// Seeds quota counters from the usage log so restarts don't reset quotas
+function loadQuota(record: ApiKeyRecord): KeyLimiterState['quota'] {
+  const { day, month } = usagePeriods();
+  let dayTokens = 0;
+  let monthTokens = 0;
+  for (const usage of readUsage()) {
+    if (usage.keyId !== record.id || !usage.timestamp.startsWith(month)) {
+      continue;
+    }
+    const tokens = usage.inputTokens + usage.outputTokens;
+    monthTokens += tokens;
+    if (usage.timestamp.startsWith(day)) {
+      dayTokens += tokens;
+    }
+  }
+  return { day, dayTokens, month, monthTokens };
+}
+
+function getState(record: ApiKeyRecord, limits: Required<KeyRateLimits>): KeyLimiterState {
+  let state = limiters.get(record.keyHash);
+  if (!state) {
+    state = {
+      requests: new TokenBucket(limits.requestsPerMinute),
+      inputTokens: new TokenBucket(limits.inputTokensPerMinute),
+      outputTokens: new TokenBucket(limits.outputTokensPerMinute),
+      quota: null
+    };
+    limiters.set(record.keyHash, state);
+  }
+
+  // Limits can change at runtime through the admin API
+  state.requests.resize(limits.requestsPerMinute);
+  state.inputTokens.resize(limits.inputTokensPerMinute);
+  state.outputTokens.resize(limits.outputTokensPerMinute);
+
+  if ((limits.dailyTokens || limits.monthlyTokens) && !state.quota) {
+    state.quota = loadQuota(record);
+  }
+  if (state.quota) {
+    const { day, month } = usagePeriods();
+    if (state.quota.day !== day) {
+      state.quota.day = day;
+      state.quota.dayTokens = 0;
+    }
+    if (state.quota.month !== month) {
+      state.quota.month = month;
+      state.quota.monthTokens = 0;
+    }
+  }
+  return state;
+}
+
+function resetTime(bucket: TokenBucket): string {
+  return new Date(Date.now() + bucket.msUntil(bucket.capacity)).toISOString();
+}
+
+// Anthropic's anthropic-ratelimit-* headers; unlimited dimensions are omitted
+function rateLimitHeaders(state: KeyLimiterState): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const dimensions: Array<[string, TokenBucket]> = [
+    ['requests', state.requests],
+    ['input-tokens', state.inputTokens],
+    ['output-tokens', state.outputTokens]
+  ];
+
+  for (const [name, bucket] of dimensions) {
+    if (bucket.capacity > 0) {
+      headers[`anthropic-ratelimit-${name}-limit`] = String(bucket.capacity);
+      headers[`anthropic-ratelimit-${name}-remaining`] = String(Math.max(0, Math.floor(bucket.available)));
+      headers[`anthropic-ratelimit-${name}-reset`] = resetTime(bucket);
+    }
+  }
+
+  // Combined token headers reflect the most restrictive token bucket
+  const tokenBuckets = [state.inputTokens, state.outputTokens].filter(bucket => bucket.capacity > 0);
+  if (tokenBuckets.length > 0) {
+    const tightest = tokenBuckets.reduce((a, b) => (a.available / a.capacity <= b.available / b.capacity ? a : b));
+    headers['anthropic-ratelimit-tokens-limit'] = String(tightest.capacity);
+    headers['anthropic-ratelimit-tokens-remaining'] = String(Math.max(0, Math.floor(tightest.available)));
+    headers['anthropic-ratelimit-tokens-reset'] = resetTime(tightest);
+  }
+  return headers;
+}
+
+function reject(state: KeyLimiterState, limit: string, retryAfterMs: number, message: string): RateLimitDecision {
+  return {
+    allowed: false,
+    retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    limit,
+    message,
+    headers: rateLimitHeaders(state)
+  };
+}
+
+function checkQuotas(state: KeyLimiterState, limits: Required<KeyRateLimits>): RateLimitDecision | null {
+  if (!state.quota) {
+    return null;
+  }
+  if (limits.dailyTokens && state.quota.dayTokens >= limits.dailyTokens) {
+    const reset = nextPeriodStart('day');
+    return reject(state, 'daily_tokens', reset.getTime() - Date.now(), `Daily token quota of ${limits.dailyTokens} exceeded. Quota resets at ${reset.toISOString()}.`);
+  }
+  if (limits.monthlyTokens && state.quota.monthTokens >= limits.monthlyTokens) {
+    const reset = nextPeriodStart('month');
+    return reject(state, 'monthly_tokens', reset.getTime() - Date.now(), `Monthly token quota of ${limits.monthlyTokens} exceeded. Quota resets at ${reset.toISOString()}.`);
+  }
+  return null;
+}
+
+// Checks only the daily/monthly quotas, for work that bypasses the
+// per-minute limits such as batch items
+export function checkQuota(record: ApiKeyRecord): RateLimitDecision {
+  const limits = effectiveLimits(record);
+  const state = getState(record, limits);
+  return checkQuotas(state, limits) ?? { allowed: true, headers: rateLimitHeaders(state) };
+}
+
+/**
+ * Admits a request against the key's request and token buckets and its
+ * daily/monthly quotas. On success the request and the estimated input
+ * tokens are taken immediately; call recordTokenUsage when the request
+ * finishes to settle the estimate against real usage.
+ */
+export function checkRateLimit(record: ApiKeyRecord, estimatedInputTokens: number): RateLimitDecision {
+  const limits = effectiveLimits(record);
+  const state = getState(record, limits);
+
+  const quota = checkQuotas(state, limits);
+  if (quota) {
+    return quota;
+  }
+
+  if (limits.requestsPerMinute && state.requests.available < 1) {
+    return reject(state, 'requests_per_minute', state.requests.msUntil(1), `Rate limit of ${limits.requestsPerMinute} requests per minute exceeded.`);
+  }
+
+  // A prompt larger than the whole bucket waits for a full bucket rather than forever
+  const inputNeeded = Math.min(estimatedInputTokens, limits.inputTokensPerMinute);
+  if (limits.inputTokensPerMinute && state.inputTokens.available < inputNeeded) {
+    return reject(state, 'input_tokens_per_minute', state.inputTokens.msUntil(inputNeeded), `Rate limit of ${limits.inputTokensPerMinute} input tokens per minute exceeded.`);
+  }
+
+  if (limits.outputTokensPerMinute && state.outputTokens.available <= 0) {
+    return reject(state, 'output_tokens_per_minute', state.outputTokens.msUntil(1), `Rate limit of ${limits.outputTokensPerMinute} output tokens per minute exceeded.`);
+  }
+
+  if (limits.requestsPerMinute) {
+    state.requests.take(1);
+  }
+  if (limits.inputTokensPerMinute) {
+    state.inputTokens.take(estimatedInputTokens);
+  }
+
+  return { allowed: true, headers: rateLimitHeaders(state) };
+}
+
+// Settles a finished request: replaces the input estimate with real usage,
+// takes output tokens and counts both against quotas
+export function recordTokenUsage(record: ApiKeyRecord, estimatedInputTokens: number, usage: TokenUsage) {
+  const limits = effectiveLimits(record);
+  const state = getState(record, limits);
+
+  if (limits.inputTokensPerMinute) {
+    state.inputTokens.take(usage.inputTokens - estimatedInputTokens);
+  }
+  if (limits.outputTokensPerMinute) {
+    state.outputTokens.take(usage.outputTokens);
+  }
+  if (state.quota) {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    state.quota.dayTokens += tokens;
+    state.quota.monthTokens += tokens;
+  }
+}
@@ -1,14 +1,74 @@
-interface AnthropicMessage {
+import { ResolvedRoute, resolveModel } from './routing';
+
+export interface CacheControl {
+  type: 'ephemeral';
+  ttl?: '5m' | '1h';
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  cache_control?: CacheControl;
+  [key: string]: any;
+}
+
+export interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string | Array<{ type: string; text?: string; [key: string]: any }>;
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, any>;
+}
+
+export type AnthropicToolChoice =
+  | { type: 'auto' | 'any' | 'none'; disable_parallel_tool_use?: boolean }
+  | { type: 'tool'; name: string; disable_parallel_tool_use?: boolean };
+
+interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface OpenRouterTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
 }
 
-interface OpenRouterMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+type OpenRouterToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+export type OpenRouterReasoningDetail =
+  | { type: 'reasoning.text'; text: string; signature?: string | null; [key: string]: any }
+  | { type: 'reasoning.summary'; summary: string; [key: string]: any }
+  | { type: 'reasoning.encrypted'; data: string; [key: string]: any };
+
+export type OpenRouterContentPart =
+  // cache_control marks a prompt caching breakpoint, for providers that support them
+  | { type: 'text'; text: string; cache_control?: CacheControl }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+type TextPart = Extract<OpenRouterContentPart, { type: 'text' }>;
+
+export interface OpenRouterMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string | OpenRouterContentPart[] | null;
+  tool_calls?: OpenRouterToolCall[];
+  tool_call_id?: string;
+  reasoning_details?: OpenRouterReasoningDetail[];
 }
 
-interface AnthropicRequest {
+export interface AnthropicRequest {
   model: string;
   messages: AnthropicMessage[];
   max_tokens?: number;
@@ -18,20 +78,39 @@ interface AnthropicRequest {
   metadata?: any;
   stop_sequences?: string[];
   stream?: boolean;
-  system?: string;
+  system?: string | AnthropicContentBlock[];
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  thinking?: { type: 'enabled'; budget_tokens: number } | { type: 'disabled' };
 }
 
-interface OpenRouterRequest {
+export interface OpenRouterRequest {
   model: string;
   messages: OpenRouterMessage[];
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  // OpenRouter extension: report the charged cost in usage.cost
+  usage?: { include: boolean };
   stop?: string[];
+  tools?: OpenRouterTool[];
+  tool_choice?: OpenRouterToolChoice;
+  parallel_tool_calls?: boolean;
+  reasoning?: {
+    max_tokens?: number;
+    effort?: 'low' | 'medium' | 'high';
+    enabled?: boolean;
+  };
+  // Only set for inbound Chat Completions requests
+  response_format?: { type: 'text' | 'json_object' } | { type: 'json_schema'; json_schema: Record<string, any> };
+  seed?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
 }
 
-interface OpenRouterResponse {
+export interface OpenRouterResponse {
   id: string;
   object: string;
   created: number;
@@ -40,72 +119,102 @@ interface OpenRouterResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenRouterToolCall[];
+      reasoning?: string | null;
+      // vLLM and DeepSeek-style servers name the reasoning field differently
+      reasoning_content?: string | null;
+      reasoning_details?: OpenRouterReasoningDetail[];
     };
     finish_reason: string;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: OpenRouterUsage;
+}
+
+export interface OpenRouterUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // USD charged, reported by OpenRouter when usage accounting is requested
+  cost?: number;
+  prompt_tokens_details?: { cached_tokens?: number; cache_write_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
 }
 
-interface AnthropicResponse {
+export type AnthropicResponseBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+
+export interface AnthropicResponse {
   id: string;
   type: 'message';
   role: 'assistant';
-  content: Array<{
-    type: 'text';
-    text: string;
-  }>;
+  content: AnthropicResponseBlock[];
   model: string;
   stop_reason: string | null;
   stop_sequence: string | null;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+  usage: AnthropicUsage;
+}
+
+// input_tokens excludes the cached prompt tokens, which are reported separately
+export interface AnthropicUsage {
+  input_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  output_tokens: number;
 }
 
 export class AnthropicRequestHandler {
   private request: AnthropicRequest;
+  readonly route: ResolvedRoute;
 
   constructor(request: AnthropicRequest) {
     this.request = request;
+    this.route = resolveModel(request.model);
+  }
+
+  // Model name reported back to the client, per the routing config
+  get responseModel(): string {
+    return this.route.responseModel;
   }
 
   transformToOpenRouter(): OpenRouterRequest {
-    // Use the model name directly - no mapping needed
-    const openRouterModel = this.request.model;
+    // Map Claude model names and aliases through the routing table
+    const openRouterModel = this.route.model;
+    const routeParams = this.route.params;
 
     // Transform messages
     const messages: OpenRouterMessage[] = [];
 
-    // Add system message if present
-    if (this.request.system) {
+    // Add system message if present; block arrays keep their cache breakpoints
+    const system = this.request.system && this.extractContentParts(this.request.system);
+    if (system && system.length > 0) {
       messages.push({
         role: 'system',
-        content: this.request.system
+        content: collapseContentParts(system)
       });
     }
 
     // Transform each message
     for (const msg of this.request.messages) {
-      const content = this.extractContent(msg.content);
-      messages.push({
-        role: msg.role,
-        content
-      });
+      messages.push(...this.transformMessage(msg));
     }
 
     // Build OpenRouter request
     const openRouterRequest: OpenRouterRequest = {
       model: openRouterModel,
       messages,
-      stream: this.request.stream ?? false
+      stream: this.request.stream ?? false,
+      usage: { include: true }
     };
 
+    // Ask for the final usage chunk so streamed responses report real token counts
+    if (openRouterRequest.stream) {
+      openRouterRequest.stream_options = { include_usage: true };
+    }
+
     // Map optional parameters
     if (this.request.max_tokens !== undefined) {
       openRouterRequest.max_tokens = this.request.max_tokens;
@@ -116,52 +225,203 @@ export class AnthropicRequestHandler {
     if (this.request.top_p !== undefined) {
       openRouterRequest.top_p = this.request.top_p;
     }
+
+    // Apply per-route overrides
+    if (routeParams.max_tokens !== undefined) {
+      openRouterRequest.max_tokens = Math.min(openRouterRequest.max_tokens ?? routeParams.max_tokens, routeParams.max_tokens);
+    }
+    if (routeParams.temperature !== undefined) {
+      openRouterRequest.temperature = routeParams.temperature;
+    }
+    if (routeParams.top_p !== undefined) {
+      openRouterRequest.top_p = routeParams.top_p;
+    }
     if (this.request.stop_sequences) {
       openRouterRequest.stop = this.request.stop_sequences;
     }
 
+    // Map tool definitions to OpenAI-style function calling
+    if (this.request.tools && this.request.tools.length > 0) {
+      openRouterRequest.tools = this.request.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.input_schema
+        }
+      }));
+    }
+    if (this.request.tool_choice) {
+      openRouterRequest.tool_choice = this.mapToolChoice(this.request.tool_choice);
+      if (this.request.tool_choice.disable_parallel_tool_use) {
+        openRouterRequest.parallel_tool_calls = false;
+      }
+    }
+
+    // Map extended thinking to OpenRouter's unified reasoning parameter
+    if (this.request.thinking?.type === 'enabled') {
+      openRouterRequest.reasoning = this.request.thinking.budget_tokens
+        ? { max_tokens: this.request.thinking.budget_tokens }
+        : { effort: 'medium' };
+    } else if (this.request.thinking?.type === 'disabled') {
+      openRouterRequest.reasoning = { enabled: false };
+    }
+
     return openRouterRequest;
   }
 
   transformToAnthropicResponse(openRouterResponse: OpenRouterResponse): AnthropicResponse {
     const choice = openRouterResponse.choices[0];
+    const toolCalls = choice.message.tool_calls || [];
+
+    const content: AnthropicResponseBlock[] = reasoningToThinkingBlocks(
+      choice.message.reasoning_details,
+      choice.message.reasoning ?? choice.message.reasoning_content
+    );
+    if (choice.message.content) {
+      content.push({
+        type: 'text',
+        text: choice.message.content
+      });
+    }
+    for (const toolCall of toolCalls) {
+      content.push({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: parseToolArguments(toolCall.function.arguments)
+      });
+    }
+    if (content.length === 0) {
+      content.push({ type: 'text', text: '' });
+    }
+
+    // Some providers report 'stop' even when the model called a tool
+    const stopReason = toolCalls.length > 0 ? 'tool_use' : this.mapFinishReason(choice.finish_reason);
 
     return {
       id: openRouterResponse.id,
       type: 'message',
       role: 'assistant',
-      content: [{
-        type: 'text',
-        text: choice.message.content
-      }],
-      model: this.request.model,
-      stop_reason: this.mapFinishReason(choice.finish_reason),
+      content,
+      model: this.responseModel,
+      stop_reason: stopReason,
       stop_sequence: null,
-      usage: {
-        input_tokens: openRouterResponse.usage?.prompt_tokens || 0,
-        output_tokens: openRouterResponse.usage?.completion_tokens || 0
-      }
+      usage: toAnthropicUsage(openRouterResponse.usage)
     };
   }
 
-  private extractContent(content: string | Array<{ type: string; text?: string; [key: string]: any }>): string {
+  private transformMessage(msg: AnthropicMessage): OpenRouterMessage[] {
+    if (typeof msg.content === 'string') {
+      return [{ role: msg.role, content: msg.content }];
+    }
+
+    if (msg.role === 'assistant') {
+      // Assistant tool_use blocks become tool_calls on the same message
+      const toolCalls: OpenRouterToolCall[] = msg.content
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input ?? {})
+          }
+        }));
+
+      const textParts = this.extractContentParts(msg.content.filter(block => block.type === 'text'));
+      const message: OpenRouterMessage = { role: 'assistant', content: collapseContentParts(textParts) };
+      if (toolCalls.length > 0) {
+        message.content = textParts.length > 0 ? message.content : null;
+        message.tool_calls = toolCalls;
+      }
+
+      // Prior-turn thinking is sent back as reasoning_details so providers
+      // can verify signatures and continue the reasoning chain
+      const reasoningDetails = thinkingBlocksToReasoning(msg.content);
+      if (reasoningDetails.length > 0) {
+        message.reasoning_details = reasoningDetails;
+      }
+      return [message];
+    }
+
+    // User tool_result blocks become separate tool messages, which must
+    // directly follow the assistant message that issued the tool calls.
+    // Tool messages only carry text, so any images in a result are
+    // forwarded in the user message that follows.
+    const messages: OpenRouterMessage[] = [];
+    const userParts: OpenRouterContentPart[] = [];
+    for (const block of msg.content) {
+      if (block.type === 'tool_result') {
+        const resultParts = this.extractContentParts(block.content ?? '');
+        const textParts = resultParts.filter((part): part is TextPart => part.type === 'text');
+        // A breakpoint on the tool_result itself applies to the end of its content
+        if (block.cache_control && textParts.length > 0) {
+          textParts[textParts.length - 1] = { ...textParts[textParts.length - 1], cache_control: block.cache_control };
+        }
+        if (block.is_error) {
+          textParts[0] = { ...textParts[0], type: 'text', text: `Error: ${textParts[0]?.text ?? ''}` };
+        }
+        messages.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: collapseContentParts(textParts)
+        });
+        userParts.push(...resultParts.filter(part => part.type !== 'text'));
+      }
+    }
+
+    const remaining = msg.content.filter(block => block.type !== 'tool_result');
+    userParts.push(...this.extractContentParts(remaining));
+    if (userParts.length > 0 || messages.length === 0) {
+      messages.push({ role: 'user', content: collapseContentParts(userParts) });
+    }
+
+    return messages;
+  }
+
+  private mapToolChoice(toolChoice: AnthropicToolChoice): OpenRouterToolChoice {
+    switch (toolChoice.type) {
+      case 'any':
+        return 'required';
+      case 'none':
+        return 'none';
+      case 'tool':
+        return { type: 'function', function: { name: toolChoice.name } };
+      default:
+        return 'auto';
+    }
+  }
+
+  private extractContentParts(content: string | AnthropicContentBlock[]): OpenRouterContentPart[] {
     if (typeof content === 'string') {
-      return content;
+      return content ? [{ type: 'text', text: content }] : [];
     }
 
-    // Extract text from content blocks
-    const textParts: string[] = [];
+    const parts: OpenRouterContentPart[] = [];
     for (const block of content) {
       if (block.type === 'text' && block.text) {
-        textParts.push(block.text);
-      }
-      // Handle image blocks if needed in the future
-      if (block.type === 'image') {
-        textParts.push('[Image content not supported in this proxy]');
+        parts.push(block.cache_control
+          ? { type: 'text', text: block.text, cache_control: block.cache_control }
+          : { type: 'text', text: block.text });
+      } else if (block.type === 'image' && block.source) {
+        parts.push({ type: 'image_url', image_url: { url: sourceToUrl(block.source) } });
+      } else if (block.type === 'document' && block.source) {
+        if (block.source.type === 'text') {
+          // Plain text documents are inlined as text
+          parts.push({ type: 'text', text: block.source.data });
+        } else {
+          parts.push({
+            type: 'file',
+            file: {
+              filename: block.title || 'document.pdf',
+              file_data: sourceToUrl(block.source)
+            }
+          });
+        }
       }
     }
-
-    return textParts.join('\n');
+    return parts;
   }
 
   private mapFinishReason(openRouterReason: string): string | null {
@@ -172,8 +432,92 @@ export class AnthropicRequestHandler {
         return 'max_tokens';
       case 'content_filter':
         return 'stop_sequence';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_use';
       default:
         return openRouterReason;
     }
   }
+}
+
+export function reasoningToThinkingBlocks(
+  details: OpenRouterReasoningDetail[] | undefined,
+  reasoning: string | null | undefined
+): AnthropicResponseBlock[] {
+  if (!details || details.length === 0) {
+    return reasoning ? [{ type: 'thinking', thinking: reasoning, signature: '' }] : [];
+  }
+
+  const blocks: AnthropicResponseBlock[] = [];
+  for (const detail of details) {
+    if (detail.type === 'reasoning.encrypted') {
+      blocks.push({ type: 'redacted_thinking', data: detail.data });
+    } else if (detail.type === 'reasoning.text') {
+      blocks.push({ type: 'thinking', thinking: detail.text || '', signature: detail.signature || '' });
+    } else if (detail.type === 'reasoning.summary') {
+      blocks.push({ type: 'thinking', thinking: detail.summary || '', signature: '' });
+    }
+  }
+  return blocks;
+}
+
+function thinkingBlocksToReasoning(content: AnthropicContentBlock[]): OpenRouterReasoningDetail[] {
+  const details: OpenRouterReasoningDetail[] = [];
+  for (const block of content) {
+    if (block.type === 'thinking') {
+      details.push({ type: 'reasoning.text', text: block.thinking, signature: block.signature || null });
+    } else if (block.type === 'redacted_thinking') {
+      details.push({ type: 'reasoning.encrypted', data: block.data });
+    }
+  }
+  return details;
+}
+
+// Anthropic image/document sources become URLs, inlining base64 as data URLs
+function sourceToUrl(source: { type: string; media_type?: string; data?: string; url?: string }): string {
+  if (source.type === 'url' && source.url) {
+    return source.url;
+  }
+  return `data:${source.media_type};base64,${source.data}`;
+}
+
+function hasCacheControl(part: OpenRouterContentPart): boolean {
+  return part.type === 'text' && part.cache_control !== undefined;
+}
+
+// Text-only content is sent as a plain string for the widest provider support,
+// unless a part carries a cache breakpoint that a string would lose
+function collapseContentParts(parts: OpenRouterContentPart[]): string | OpenRouterContentPart[] {
+  if (parts.every(part => part.type === 'text') && !parts.some(hasCacheControl)) {
+    return parts.map(part => (part as { text: string }).text).join('\n');
+  }
+  return parts;
+}
+
+/**
+ * Maps OpenAI-style usage to Anthropic's. prompt_tokens includes cache reads
+ * and writes, which Anthropic reports separately from input_tokens.
+ */
+export function toAnthropicUsage(usage: OpenRouterUsage | undefined): AnthropicUsage {
+  const cacheRead = usage?.prompt_tokens_details?.cached_tokens || 0;
+  const cacheWrite = usage?.prompt_tokens_details?.cache_write_tokens || 0;
+  return {
+    input_tokens: Math.max(0, (usage?.prompt_tokens || 0) - cacheRead - cacheWrite),
+    cache_creation_input_tokens: cacheWrite,
+    cache_read_input_tokens: cacheRead,
+    output_tokens: usage?.completion_tokens || 0
+  };
+}
+
+export function parseToolArguments(args: string): any {
+  if (!args) {
+    return {};
+  }
+  try {
+    return JSON.parse(args);
+  } catch {
+    // Keep malformed arguments visible to the client instead of dropping them
+    return { _raw: args };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { dataPath } from './storage';
+
+const REQUEST_LOG_ENABLED = process.env.REQUEST_LOG !== 'false';
+
+const CAPTURE_ENABLED = process.env.PROMPT_CAPTURE === 'true';
+const CAPTURE_PATH = process.env.PROMPT_CAPTURE_PATH || dataPath('prompts.jsonl');
+const CAPTURE_MAX_BYTES = Number(process.env.PROMPT_CAPTURE_MAX_BYTES) || 10 * 1024 * 1024;
+// Rotated files kept next to the live one: prompts.jsonl.1 is the newest
+const CAPTURE_MAX_FILES = Number(process.env.PROMPT_CAPTURE_MAX_FILES) || 5;
+
+const REDACTED = '[REDACTED]';
+
+// Secrets that should never reach a capture file, whatever the configuration
+const DEFAULT_REDACTIONS: RegExp[] = [
+  // Anthropic, OpenAI, OpenRouter and AnthroRouter API keys
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]{8,}/g,
+  // AWS access key ids
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  // Email addresses
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+];
+
+// PROMPT_REDACT_PATTERNS is a JSON array of extra regular expression sources
+function loadRedactions(): RegExp[] {
+  const extra = process.env.PROMPT_REDACT_PATTERNS;
+  if (!extra) {
+    return DEFAULT_REDACTIONS;
+  }
+  try {
+    const sources: string[] = JSON.parse(extra);
+    return [...DEFAULT_REDACTIONS, ...sources.map(source => new RegExp(source, 'g'))];
+  } catch (error) {
+    throw new Error(`Invalid PROMPT_REDACT_PATTERNS: ${(error as Error).message}`);
+  }
+}
+
+const redactions = loadRedactions();
+
+export function generateRequestId(): string {
+  return `req_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+// Adds fields to the request's log line; later values win
+export function logFields(res: express.Response, fields: Record<string, unknown>) {
+  res.locals.logFields = { ...res.locals.logFields, ...fields };
+}
+
+export function logError(res: express.Response, error: unknown) {
+  logFields(res, { error: error instanceof Error ? error.stack ?? error.message : String(error) });
+}
+
+/**
+ * Gives every request an id, returned in the request-id header like
+ * Anthropic's API, and writes one JSON line to stdout once it has been
+ * answered. Handlers add model, upstream, token and error fields with
+ * logFields; the API key itself is never logged, only its id.
+ */
+export function requestLogger(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const startedAt = performance.now();
+  const requestId = generateRequestId();
+  res.locals.requestId = requestId;
+  res.setHeader('request-id', requestId);
+
+  res.on('close', () => {
+    if (!REQUEST_LOG_ENABLED) {
+      return;
+    }
+    console.log(JSON.stringify({
+      time: new Date().toISOString(),
+      request_id: requestId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      duration_ms: Math.round(performance.now() - startedAt),
+      // Set when the client disconnected before the response was complete
+      aborted: res.writableFinished ? undefined : true,
+      key_id: res.locals.apiKeyRecord?.id,
+      ...res.locals.routeInfo,
+      ...res.locals.logFields
+    }));
+  });
+  next();
+}
+
+/**
+ * Replaces secrets and configured patterns in every string, and drops
+ * base64 payloads (images, PDFs) that would bloat the capture file.
+ */
+export function redact(value: any): any {
+  if (typeof value === 'string') {
+    return redactions.reduce((text, pattern) => text.replace(pattern, REDACTED), value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    if (value.type === 'base64' && typeof value.data === 'string') {
+      return { ...value, data: `[${value.data.length} base64 characters omitted]` };
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item)]));
+  }
+  return value;
+}
+
+export function isPromptCaptureEnabled(): boolean {
+  return CAPTURE_ENABLED;
+}
+
+async function rotateCaptureFiles() {
+  for (let i = CAPTURE_MAX_FILES - 1; i >= 1; i--) {
+    await fs.promises.rename(`${CAPTURE_PATH}.${i}`, `${CAPTURE_PATH}.${i + 1}`).catch(() => {});
+  }
+  await fs.promises.rename(CAPTURE_PATH, `${CAPTURE_PATH}.1`);
+}
+
+async function appendCapture(line: string) {
+  await fs.promises.mkdir(path.dirname(CAPTURE_PATH), { recursive: true });
+  const size = await fs.promises.stat(CAPTURE_PATH).then(stat => stat.size, () => 0);
+  if (size > 0 && size + Buffer.byteLength(line) > CAPTURE_MAX_BYTES) {
+    await rotateCaptureFiles();
+  }
+  await fs.promises.appendFile(CAPTURE_PATH, line);
+}
+
+// Writes are chained so rotation never races an append
+let pendingCapture: Promise<void> = Promise.resolve();
+
+/**
+ * Appends a redacted request/response pair to the capture file when
+ * PROMPT_CAPTURE=true. The file rotates once it reaches
+ * PROMPT_CAPTURE_MAX_BYTES.
+ */
+export function capturePrompt(entry: { requestId: string; keyId: string; request: unknown; response: unknown }) {
+  if (!CAPTURE_ENABLED) {
+    return;
+  }
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    request_id: entry.requestId,
+    key_id: entry.keyId,
+    request: redact(entry.request),
+    response: redact(entry.response)
+  }) + '\n';
+
+  pendingCapture = pendingCapture
+    .then(() => appendCapture(line))
+    .catch(error => {
+      // Capture failures shouldn't break the API
+      console.error('Failed to capture prompt:', error);
+    });
+}
+
+// Resolves once every capture so far has been written
+export function flushPromptCapture(): Promise<void> {
+  return pendingCapture;
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { canonicalize } from './fixtures';
+import { AnthropicResponse, OpenRouterRequest } from './request-handler';
+import { readJsonFile, writeJsonFile } from './storage';
+
+/**
+ * Exact-match cache of complete responses, for clients such as CI runs that
+ * send the same deterministic prompts over and over. Entries are keyed by the
+ * translated upstream request without its streaming flag, so a streaming and
+ * a non-streaming request for the same prompt share an entry.
+ */
+
+// Off unless RESPONSE_CACHE=true
+const RESPONSE_CACHE = process.env.RESPONSE_CACHE === 'true';
+const RESPONSE_CACHE_TTL_MS = Number(process.env.RESPONSE_CACHE_TTL_SECONDS || 3600) * 1000;
+const RESPONSE_CACHE_MAX_ENTRIES = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || 1000;
+// Entries are also written here when set, so they survive restarts
+const RESPONSE_CACHE_DIR = process.env.RESPONSE_CACHE_DIR;
+
+// Request header that opts a request in (on) or out (off) of the cache; the
+// response header of the same name reports hit, miss or bypass
+export const CACHE_HEADER = 'x-anthroRouter-cache';
+
+export interface CachedResponse {
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  message: AnthropicResponse;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  dir?: string;
+}
+
+export function responseCacheKey(request: OpenRouterRequest): string {
+  // Streaming only changes how the response is delivered
+  const { stream, stream_options, ...rest } = request;
+  const normalized = JSON.stringify(canonicalize(rest));
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 32);
+}
+
+/**
+ * Only temperature 0 requests are cached by default, since anything else is
+ * expected to vary between calls. The request header overrides that either way.
+ */
+export function shouldUseCache(request: OpenRouterRequest, header: string | undefined): boolean {
+  if (header === 'off') {
+    return false;
+  }
+  return header === 'on' || request.temperature === 0;
+}
+
+/**
+ * In-memory LRU with a TTL, optionally backed by one JSON file per entry.
+ * Entries on disk are loaded on their first lookup after a restart, and
+ * their files are removed when they expire or are evicted.
+ */
+export class ResponseCache {
+  // Insertion order is kept least recently used first
+  private entries = new Map<string, CachedResponse>();
+  private options: ResponseCacheOptions;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): AnthropicResponse | null {
+    const entry = this.entries.get(key) ?? this.readEntry(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    return entry.message;
+  }
+
+  set(key: string, message: AnthropicResponse) {
+    const now = Date.now();
+    const entry: CachedResponse = { key, storedAt: now, expiresAt: now + this.options.ttlMs, message };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.options.dir) {
+      try {
+        writeJsonFile(this.entryPath(key), entry);
+      } catch (error) {
+        console.error(`Failed to write cached response ${key}:`, error);
+      }
+    }
+    this.evict();
+  }
+
+  private evict() {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) {
+        break;
+      }
+      this.remove(key);
+    }
+  }
+
+  private remove(key: string) {
+    this.entries.delete(key);
+    if (this.options.dir) {
+      fs.rmSync(this.entryPath(key), { force: true });
+    }
+  }
+
+  private readEntry(key: string): CachedResponse | null {
+    return this.options.dir ? readJsonFile<CachedResponse>(this.entryPath(key)) : null;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.options.dir!, `${key}.json`);
+  }
+}
+
+// The server's cache, or null when RESPONSE_CACHE is off
+export const responseCache = RESPONSE_CACHE
+  ? new ResponseCache({ ttlMs: RESPONSE_CACHE_TTL_MS, maxEntries: RESPONSE_CACHE_MAX_ENTRIES, dir: RESPONSE_CACHE_DIR })
+  : null;
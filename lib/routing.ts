@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { configureProviders, DEFAULT_PROVIDER, hasProvider, ProviderConfig } from './providers';
+
+export interface RouteParams {
+  // Upper bound for max_tokens; larger client values are clamped
+  max_tokens?: number;
+  // Forced sampling values, replacing whatever the client sent
+  temperature?: number;
+  top_p?: number;
+}
+
+export interface RouteRule {
+  // Exact name, glob ("claude-sonnet-4-*") or regex literal ("/^claude-3/i")
+  match: string;
+  model: string;
+  // Upstream provider name; defaults to the config's defaultProvider
+  provider?: string;
+  // Models tried in order when the primary model keeps failing. Plain names
+  // use the rule's provider.
+  fallbacks?: Array<string | { model: string; provider?: string }>;
+  params?: RouteParams;
+}
+
+export interface UpstreamTarget {
+  provider: string;
+  model: string;
+}
+
+export interface RoutingConfig {
+  // Model used when a non-OpenRouter name (no "/") matches no rule
+  default?: string;
+  // Which model name responses report: the client's alias or the upstream model
+  responseModel?: 'requested' | 'resolved';
+  // Provider for pass-through and default models (default: openrouter)
+  defaultProvider?: string;
+  // Extra or overridden upstream providers, keyed by name
+  providers?: Record<string, ProviderConfig>;
+  routes?: RouteRule[];
+}
+
+export interface ResolvedRoute {
+  requestedModel: string;
+  model: string;
+  provider: string;
+  // Every upstream to try, primary first
+  targets: UpstreamTarget[];
+  params: RouteParams;
+  responseModel: string;
+}
+
+interface CompiledRule {
+  test: (model: string) => boolean;
+  rule: RouteRule;
+}
+
+const CONFIG_PATH = process.env.ROUTES_CONFIG || path.join(process.cwd(), 'routes.json');
+
+let config: RoutingConfig = {};
+let compiledRules: CompiledRule[] = [];
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+function isPattern(match: string): boolean {
+  return REGEX_LITERAL.test(match) || /[*?]/.test(match);
+}
+
+function compileMatcher(match: string): (model: string) => boolean {
+  const regexLiteral = match.match(REGEX_LITERAL);
+  if (regexLiteral) {
+    const regex = new RegExp(regexLiteral[1], regexLiteral[2]);
+    return model => regex.test(model);
+  }
+
+  if (isPattern(match)) {
+    const pattern = match
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    const regex = new RegExp(`^${pattern}$`);
+    return model => regex.test(model);
+  }
+
+  return model => model === match;
+}
+
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  return compileMatcher(pattern)(model);
+}
+
+// A misspelled provider would otherwise only surface as failed upstream
+// requests, retried and reported as the upstream being unreachable
+function checkProviders(routingConfig: RoutingConfig) {
+  const check = (name: string | undefined, where: string) => {
+    if (name && !hasProvider(name)) {
+      throw new Error(`Unknown upstream provider ${name} in ${where}`);
+    }
+  };
+  check(routingConfig.defaultProvider, 'defaultProvider');
+  (routingConfig.routes || []).forEach((rule, index) => {
+    check(rule.provider, `routes[${index}].provider`);
+    (rule.fallbacks || []).forEach((fallback, fallbackIndex) => {
+      if (typeof fallback !== 'string') {
+        check(fallback.provider, `routes[${index}].fallbacks[${fallbackIndex}].provider`);
+      }
+    });
+  });
+}
+
+export function setRoutingConfig(newConfig: RoutingConfig) {
+  configureProviders(newConfig.providers);
+  checkProviders(newConfig);
+  config = newConfig;
+  // Exact names win over patterns regardless of their order in the file
+  const rules = newConfig.routes || [];
+  const exact = rules.filter(rule => !isPattern(rule.match));
+  const patterns = rules.filter(rule => isPattern(rule.match));
+  compiledRules = [...exact, ...patterns].map(rule => ({
+    test: compileMatcher(rule.match),
+    rule
+  }));
+}
+
+export function loadRoutingConfig(configPath: string = CONFIG_PATH) {
+  let fileConfig: RoutingConfig = {};
+  if (fs.existsSync(configPath)) {
+    fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  }
+
+  setRoutingConfig({
+    ...fileConfig,
+    default: process.env.DEFAULT_MODEL || fileConfig.default
+  });
+}
+
+export function resolveModel(requestedModel: string): ResolvedRoute {
+  const match = compiledRules.find(({ test }) => test(requestedModel));
+
+  let model = requestedModel;
+  if (match) {
+    model = match.rule.model;
+  } else if (!requestedModel.includes('/') && config.default) {
+    // Names like "claude-sonnet-4-20250514" are not OpenRouter ids
+    model = config.default;
+  }
+
+  const provider = match?.rule.provider || config.defaultProvider || DEFAULT_PROVIDER;
+  const fallbacks = (match?.rule.fallbacks || []).map(fallback =>
+    typeof fallback === 'string'
+      ? { provider, model: fallback }
+      : { provider: fallback.provider || provider, model: fallback.model }
+  );
+
+  return {
+    requestedModel,
+    model,
+    provider,
+    targets: [{ provider, model }, ...fallbacks],
+    params: match?.rule.params || {},
+    responseModel: config.responseModel === 'resolved' ? model : requestedModel
+  };
+}
+
+loadRoutingConfig();
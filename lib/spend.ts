@@ -0,0 +1,126 @@
+import { ApiKeyRecord, KeySpendLimits } from './key-store';
+import { findModel } from './model-catalog';
+import { nextPeriodStart, readUsage, RequestUsage, usagePeriods } from './usage';
+
+// Defaults for keys without their own limits; 0 means unlimited
+const DEFAULT_LIMITS: Required<KeySpendLimits> = {
+  dailyUsd: Number(process.env.SPEND_LIMIT_DAILY_USD ?? 0),
+  monthlyUsd: Number(process.env.SPEND_LIMIT_MONTHLY_USD ?? 0)
+};
+
+interface KeySpend {
+  day: string;
+  daySpend: number;
+  month: string;
+  monthSpend: number;
+}
+
+export interface SpendDecision {
+  allowed: boolean;
+  // daily_usd or monthly_usd, like the admin API field
+  limit?: string;
+  message?: string;
+}
+
+// Keyed by key id so spend carries over when a key is rotated
+const spending = new Map<string, KeySpend>();
+
+/**
+ * USD cost of a finished request. OpenRouter reports what it charged in
+ * usage.cost; other upstreams are priced from the model catalog, with cached
+ * prompt tokens at the cache read and write prices. Models missing from the
+ * catalog (e.g. local Ollama models) cost nothing.
+ */
+export async function computeCost(upstreamModel: string, usage: RequestUsage): Promise<number> {
+  if (usage.cost !== undefined) {
+    return usage.cost;
+  }
+
+  const pricing = (await findModel(upstreamModel))?.pricing;
+  if (!pricing) {
+    return 0;
+  }
+
+  const price = (value: string | undefined) => Number(value) || 0;
+  const cachedTokens = Math.min(usage.cachedTokens, usage.inputTokens);
+  const cacheWriteTokens = Math.min(usage.cacheWriteTokens, usage.inputTokens - cachedTokens);
+  return (usage.inputTokens - cachedTokens - cacheWriteTokens) * price(pricing.prompt)
+    + cachedTokens * price(pricing.input_cache_read ?? pricing.prompt)
+    + cacheWriteTokens * price(pricing.input_cache_write ?? pricing.prompt)
+    + usage.outputTokens * price(pricing.completion);
+}
+
+export function effectiveSpendLimits(record: ApiKeyRecord): Required<KeySpendLimits> {
+  return {
+    dailyUsd: record.spendLimits?.dailyUsd ?? DEFAULT_LIMITS.dailyUsd,
+    monthlyUsd: record.spendLimits?.monthlyUsd ?? DEFAULT_LIMITS.monthlyUsd
+  };
+}
+
+// Seeds spend from the usage log the first time a key is checked
+function getSpend(record: ApiKeyRecord): KeySpend {
+  const { day, month } = usagePeriods();
+  let spend = spending.get(record.id);
+  if (!spend) {
+    spend = { day, daySpend: 0, month, monthSpend: 0 };
+    for (const usage of readUsage()) {
+      if (usage.keyId !== record.id || !usage.timestamp.startsWith(month)) {
+        continue;
+      }
+      spend.monthSpend += usage.cost ?? 0;
+      if (usage.timestamp.startsWith(day)) {
+        spend.daySpend += usage.cost ?? 0;
+      }
+    }
+    spending.set(record.id, spend);
+  }
+
+  if (spend.day !== day) {
+    spend.day = day;
+    spend.daySpend = 0;
+  }
+  if (spend.month !== month) {
+    spend.month = month;
+    spend.monthSpend = 0;
+  }
+  return spend;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Spend is only known after a request finishes, so a key can go over its
+// limit by the cost of the requests in flight when it is reached
+export function checkSpendLimit(record: ApiKeyRecord): SpendDecision {
+  const limits = effectiveSpendLimits(record);
+  if (!limits.dailyUsd && !limits.monthlyUsd) {
+    return { allowed: true };
+  }
+
+  const spend = getSpend(record);
+  if (limits.dailyUsd && spend.daySpend >= limits.dailyUsd) {
+    return {
+      allowed: false,
+      limit: 'daily_usd',
+      message: `Daily spend limit of ${formatUsd(limits.dailyUsd)} reached for this API key. It resets at ${nextPeriodStart('day').toISOString()}.`
+    };
+  }
+  if (limits.monthlyUsd && spend.monthSpend >= limits.monthlyUsd) {
+    return {
+      allowed: false,
+      limit: 'monthly_usd',
+      message: `Monthly spend limit of ${formatUsd(limits.monthlyUsd)} reached for this API key. It resets at ${nextPeriodStart('month').toISOString()}.`
+    };
+  }
+  return { allowed: true };
+}
+
+export function recordSpend(record: ApiKeyRecord, cost: number) {
+  // Keys that were never checked are seeded from the usage log when they are
+  if (spending.has(record.id)) {
+    const spend = getSpend(record);
+    spend.daySpend += cost;
+    spend.monthSpend += cost;
+  }
+}
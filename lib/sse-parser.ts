@@ -0,0 +1,103 @@
+export type SSEMessage =
+  | { type: 'event'; event?: string; data: string }
+  | { type: 'comment'; comment: string };
+
+/**
+ * Incremental Server-Sent Events parser.
+ *
+ * Text is pushed in as it arrives from the network; partial lines and
+ * multi-line `data:` fields are carried across pushes, and an event is only
+ * emitted once its terminating blank line has been seen. Accepts `\n`,
+ * `\r\n` and bare `\r` line endings, including a `\r\n` split across pushes.
+ */
+export class SSEParser {
+  private buffer = '';
+  private pendingCR = false;
+  private eventName: string | undefined;
+  private dataLines: string[] = [];
+
+  push(text: string): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+
+    // A CR at the end of the previous push may be the first half of CRLF
+    if (this.pendingCR) {
+      this.pendingCR = false;
+      if (text.startsWith('\n')) {
+        text = text.slice(1);
+      }
+    }
+
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      this.processLine(this.buffer.slice(start, i), messages);
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  // Dispatch whatever is left once the upstream stream has ended
+  flush(): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    if (this.buffer) {
+      this.processLine(this.buffer, messages);
+      this.buffer = '';
+    }
+    this.dispatch(messages);
+    return messages;
+  }
+
+  private processLine(line: string, messages: SSEMessage[]) {
+    if (line === '') {
+      this.dispatch(messages);
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      messages.push({ type: 'comment', comment: line.slice(1).trim() });
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'event') {
+      this.eventName = value;
+    }
+    // id and retry fields are not used by OpenRouter streams
+  }
+
+  private dispatch(messages: SSEMessage[]) {
+    if (this.dataLines.length > 0) {
+      messages.push({
+        type: 'event',
+        event: this.eventName,
+        data: this.dataLines.join('\n')
+      });
+    }
+    this.eventName = undefined;
+    this.dataLines = [];
+  }
+}
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+
+// Local state (model cache, key store, usage logs) lives under DATA_DIR
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+export function readJsonFile<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Failed to read ${filePath}:`, error);
+    }
+    return null;
+  }
+}
+
+// Write to a temp file and rename so readers never see a partial file
+export function writeJsonFile(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
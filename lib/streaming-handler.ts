@@ -1,117 +1,553 @@
 import { Response } from 'express';
+import { AnthropicResponse, AnthropicUsage, OpenRouterUsage, parseToolArguments, toAnthropicUsage } from './request-handler';
+import { errorBody, errorTypeForStatus } from './errors';
+import { SSEMessage, SSEParser } from './sse-parser';
+import { fromOpenRouterUsage, RequestUsage } from './usage';
 
-export async function handleStreamingResponse(openRouterResponse: globalThis.Response, expressRes: Response) {
-  // Set SSE headers
-  expressRes.setHeader('Content-Type', 'text/event-stream');
-  expressRes.setHeader('Cache-Control', 'no-cache');
-  expressRes.setHeader('Connection', 'keep-alive');
-  expressRes.setHeader('X-Accel-Buffering', 'no');
+const PING_INTERVAL = 15 * 1000; // Keepalive ping every 15 seconds
 
-  const reader = openRouterResponse.body?.getReader();
-  const decoder = new TextDecoder();
+export type StreamUsage = RequestUsage;
 
-  if (!reader) {
-    expressRes.end();
-    return;
+export interface StreamResult {
+  usage: StreamUsage;
+  // The streamed message as a non-streaming response would have returned it
+  message: AnthropicResponse;
+  // False when the upstream stream failed or ended without a finish reason
+  complete: boolean;
+  // Message of the error event that ended the stream, if it failed
+  error: string | null;
+}
+
+type BlockType = 'text' | 'tool_use' | 'thinking' | 'redacted_thinking';
+
+export interface StreamOptions {
+  // Model name reported back to the client
+  model: string;
+  // Local prompt estimate for message_start; replaced by upstream usage when known
+  inputTokens?: number;
+  // Called once, when the first content delta is written to the client
+  onFirstToken?: () => void;
+}
+
+/**
+ * Translates OpenRouter (OpenAI-style) stream chunks into the Anthropic
+ * streaming event grammar:
+ *
+ *   message_start, ping, (content_block_start, content_block_delta*,
+ *   content_block_stop)*, message_delta, message_stop
+ *
+ * Usage arrives in OpenRouter's final chunk (after finish_reason), so the
+ * closing message_delta is held back until the upstream stream ends.
+ */
+export class StreamTranslator {
+  private model: string;
+  private started = false;
+  private finished = false;
+  private nextIndex = 0;
+  private openBlock: { index: number; type: BlockType } | null = null;
+  // Upstream tool_calls[].index -> Anthropic content block index
+  private toolBlocks = new Map<number, number>();
+  // Upstream can interleave fragments of parallel tool calls with each other
+  // and with text, so tool_use blocks stay open until the finish reason
+  private openToolBlocks: number[] = [];
+  private sawToolUse = false;
+  private finishReason: string | null = null;
+  private failure: string | null = null;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private upstreamUsage: OpenRouterUsage | undefined;
+
+  constructor(options: StreamOptions) {
+    this.model = options.model;
+    this.inputTokens = options.inputTokens ?? 0;
   }
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  get hasStarted(): boolean {
+    return this.started;
+  }
+
+  get completed(): boolean {
+    return this.finishReason !== null && this.failure === null;
+  }
 
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
+  get error(): string | null {
+    return this.failure;
+  }
 
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
+  get usage(): StreamUsage {
+    return {
+      ...fromOpenRouterUsage(this.upstreamUsage),
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens
+    };
+  }
 
-          // Handle [DONE] message
-          if (data === '[DONE]') {
-            // Send Anthropic completion event
-            const anthropicDone = { type: 'message_stop' };
-            expressRes.write(`data: ${JSON.stringify(anthropicDone)}\n\n`);
-            // Don't send the event: message_stop line - Claude Code doesn't expect it
-            continue;
-          }
+  transformChunk(openRouterChunk: any): any[] {
+    const events: any[] = [];
+    if (this.finished) {
+      return events;
+    }
+
+    // Failures after the response has started arrive as a chunk with an error
+    // field, with a string code or the HTTP status it would have had
+    if (openRouterChunk.error) {
+      const { code, message } = openRouterChunk.error;
+      return this.fail(typeof code === 'number' ? errorTypeForStatus(code) : 'api_error', message || 'Upstream stream failed');
+    }
+    if (openRouterChunk.choices?.[0]?.finish_reason === 'error') {
+      return this.fail('api_error', 'Upstream stream failed');
+    }
+
+    if (openRouterChunk.usage) {
+      this.upstreamUsage = openRouterChunk.usage;
+      this.inputTokens = openRouterChunk.usage.prompt_tokens ?? this.inputTokens;
+      this.outputTokens = openRouterChunk.usage.completion_tokens ?? this.outputTokens;
+    }
 
-          try {
-            const parsed = JSON.parse(data);
-            const anthropicEvent = transformStreamChunk(parsed);
+    this.ensureStarted(events, openRouterChunk.id);
 
-            if (anthropicEvent) {
-              expressRes.write(`data: ${JSON.stringify(anthropicEvent)}\n\n`);
+    const choice = openRouterChunk.choices?.[0];
+    if (!choice) {
+      return events;
+    }
+
+    const delta = choice.delta || {};
+
+    // OpenRouter mirrors delta.reasoning in reasoning_details; prefer the
+    // structured form since it also carries signatures and encrypted blocks
+    if (delta.reasoning_details?.length) {
+      for (const detail of delta.reasoning_details) {
+        if (detail.type === 'reasoning.encrypted') {
+          this.closeOpenBlock(events);
+          this.startBlock(events, 'redacted_thinking', { type: 'redacted_thinking', data: detail.data });
+          this.closeOpenBlock(events);
+          continue;
+        }
+
+        const text = detail.type === 'reasoning.summary' ? detail.summary : detail.text;
+        if (text) {
+          this.appendThinking(events, text);
+        }
+        if (detail.signature) {
+          this.ensureThinkingBlock(events);
+          events.push({
+            type: 'content_block_delta',
+            index: this.openBlock!.index,
+            delta: {
+              type: 'signature_delta',
+              signature: detail.signature
             }
-          } catch (e) {
-            // Skip invalid JSON
-            console.error('Failed to parse stream chunk:', e);
-          }
+          });
         }
       }
+    } else if (delta.reasoning || delta.reasoning_content) {
+      this.appendThinking(events, delta.reasoning || delta.reasoning_content);
+    }
+
+    if (delta.content) {
+      if (this.openBlock?.type !== 'text') {
+        this.closeOpenBlock(events);
+        this.startBlock(events, 'text', { type: 'text', text: '' });
+      }
+      events.push({
+        type: 'content_block_delta',
+        index: this.openBlock!.index,
+        delta: {
+          type: 'text_delta',
+          text: delta.content
+        }
+      });
     }
-  } catch (error) {
-    console.error('Streaming error:', error);
-  } finally {
-    expressRes.end();
-  }
-}
 
-function transformStreamChunk(openRouterChunk: any): any {
-  // Handle different types of OpenRouter streaming events
-  if (openRouterChunk.choices && openRouterChunk.choices[0]) {
-    const choice = openRouterChunk.choices[0];
+    for (const toolCall of delta.tool_calls || []) {
+      const upstreamIndex = toolCall.index ?? 0;
+      let blockIndex = this.toolBlocks.get(upstreamIndex);
 
-    // Check if this is a delta event
-    if (choice.delta) {
-      if (choice.delta.content) {
-        return {
+      // The first fragment of a tool call carries its id and name
+      if (blockIndex === undefined) {
+        this.closeOpenBlock(events);
+        blockIndex = this.startBlock(events, 'tool_use', {
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function?.name,
+          input: {}
+        });
+        this.toolBlocks.set(upstreamIndex, blockIndex);
+        this.openToolBlocks.push(blockIndex);
+        this.sawToolUse = true;
+      }
+
+      if (toolCall.function?.arguments) {
+        events.push({
           type: 'content_block_delta',
-          index: 0,
+          index: blockIndex,
           delta: {
-            type: 'text_delta',
-            text: choice.delta.content
+            type: 'input_json_delta',
+            partial_json: toolCall.function.arguments
           }
-        };
+        });
       }
     }
 
-    // Check if this is a message completion
-    if (choice.message) {
-      return {
-        type: 'message_start',
-        message: {
-          id: openRouterChunk.id,
-          type: 'message',
-          role: 'assistant',
-          content: [],
-          model: openRouterChunk.model,
-          stop_reason: null,
-          stop_sequence: null,
-          usage: {
-            input_tokens: 0,
-            output_tokens: 0
-          }
-        }
-      };
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+      this.closeAllBlocks(events);
     }
 
-    // Handle finish reason
-    if (choice.finish_reason) {
-      return {
-        type: 'message_delta',
-        delta: {
-          stop_reason: mapFinishReason(choice.finish_reason),
-          stop_sequence: null
-        },
+    return events;
+  }
+
+  finish(): any[] {
+    const events: any[] = [];
+    if (this.finished) {
+      return events;
+    }
+
+    this.ensureStarted(events);
+    this.closeAllBlocks(events);
+
+    const stopReason = this.sawToolUse
+      ? 'tool_use'
+      : mapFinishReason(this.finishReason ?? 'stop');
+
+    events.push({
+      type: 'message_delta',
+      delta: {
+        stop_reason: stopReason,
+        stop_sequence: null
+      },
+      usage: this.anthropicUsage()
+    });
+    events.push({ type: 'message_stop' });
+
+    this.finished = true;
+    return events;
+  }
+
+  /**
+   * Ends the stream with an error event in place of message_delta and
+   * message_stop, the way Anthropic reports errors once a stream has begun.
+   * message_start still goes first so the partial message can be accounted for.
+   */
+  fail(type: string, message: string): any[] {
+    const events: any[] = [];
+    if (this.finished) {
+      return events;
+    }
+    this.ensureStarted(events);
+    events.push(errorBody(type, message));
+    this.finished = true;
+    this.failure = message;
+    return events;
+  }
+
+  private ensureStarted(events: any[], id?: string) {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    events.push({
+      type: 'message_start',
+      message: {
+        id: id || `msg_${Date.now()}`,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: this.model,
+        stop_reason: null,
+        stop_sequence: null,
         usage: {
-          output_tokens: openRouterChunk.usage?.completion_tokens || 0
+          input_tokens: this.inputTokens,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+          output_tokens: 0
+        }
+      }
+    });
+    events.push({ type: 'ping' });
+  }
+
+  // Upstream usage when it was reported, otherwise the local estimate
+  private anthropicUsage(): AnthropicUsage {
+    if (this.upstreamUsage) {
+      return toAnthropicUsage(this.upstreamUsage);
+    }
+    return {
+      input_tokens: this.inputTokens,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      output_tokens: this.outputTokens
+    };
+  }
+
+  private ensureThinkingBlock(events: any[]) {
+    if (this.openBlock?.type !== 'thinking') {
+      this.closeOpenBlock(events);
+      this.startBlock(events, 'thinking', { type: 'thinking', thinking: '' });
+    }
+  }
+
+  private appendThinking(events: any[], text: string) {
+    this.ensureThinkingBlock(events);
+    events.push({
+      type: 'content_block_delta',
+      index: this.openBlock!.index,
+      delta: {
+        type: 'thinking_delta',
+        thinking: text
+      }
+    });
+  }
+
+  private startBlock(events: any[], type: BlockType, contentBlock: any): number {
+    const index = this.nextIndex++;
+    if (type !== 'tool_use') {
+      this.openBlock = { index, type };
+    }
+    events.push({
+      type: 'content_block_start',
+      index,
+      content_block: contentBlock
+    });
+    return index;
+  }
+
+  private closeOpenBlock(events: any[]) {
+    if (this.openBlock) {
+      events.push({
+        type: 'content_block_stop',
+        index: this.openBlock.index
+      });
+      this.openBlock = null;
+    }
+  }
+
+  private closeAllBlocks(events: any[]) {
+    this.closeOpenBlock(events);
+    for (const index of this.openToolBlocks) {
+      events.push({
+        type: 'content_block_stop',
+        index
+      });
+    }
+    this.openToolBlocks = [];
+  }
+}
+
+/**
+ * Rebuilds the complete message from the Anthropic events sent to the
+ * client, the same way an SDK client assembles a streamed message.
+ */
+export class MessageAccumulator {
+  private current: AnthropicResponse | null = null;
+  private partialJson = new Map<number, string>();
+
+  add(event: any) {
+    if (event.type === 'message_start') {
+      this.current = { ...event.message, content: [], usage: { ...event.message.usage } };
+      return;
+    }
+    const message = this.current;
+    if (!message) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'content_block_start':
+        message.content[event.index] = { ...event.content_block };
+        break;
+      case 'content_block_delta': {
+        const block: any = message.content[event.index];
+        const delta = event.delta;
+        if (delta.type === 'text_delta') {
+          block.text += delta.text;
+        } else if (delta.type === 'thinking_delta') {
+          block.thinking += delta.thinking;
+        } else if (delta.type === 'signature_delta') {
+          block.signature = delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          this.partialJson.set(event.index, (this.partialJson.get(event.index) ?? '') + delta.partial_json);
+        }
+        break;
+      }
+      case 'content_block_stop': {
+        const block = message.content[event.index];
+        if (block?.type === 'tool_use') {
+          block.input = parseToolArguments(this.partialJson.get(event.index) ?? '');
+        } else if (block?.type === 'thinking') {
+          block.signature ??= '';
+        }
+        break;
+      }
+      case 'message_delta':
+        message.stop_reason = event.delta.stop_reason;
+        message.stop_sequence = event.delta.stop_sequence;
+        message.usage = { ...message.usage, ...event.usage };
+        break;
+    }
+  }
+
+  get message(): AnthropicResponse | null {
+    return this.current;
+  }
+}
+
+export function formatSSEEvent(event: any): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function setStreamHeaders(expressRes: Response) {
+  expressRes.setHeader('Content-Type', 'text/event-stream');
+  expressRes.setHeader('Cache-Control', 'no-cache');
+  expressRes.setHeader('Connection', 'keep-alive');
+  expressRes.setHeader('X-Accel-Buffering', 'no');
+}
+
+/**
+ * The event stream that delivers a complete message, one delta per content
+ * block. MessageAccumulator rebuilds the same message from these events.
+ */
+export function messageToEvents(message: AnthropicResponse): any[] {
+  const events: any[] = [
+    {
+      type: 'message_start',
+      message: {
+        ...message,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { ...message.usage, output_tokens: 0 }
+      }
+    },
+    { type: 'ping' }
+  ];
+
+  message.content.forEach((block, index) => {
+    switch (block.type) {
+      case 'text':
+        events.push({ type: 'content_block_start', index, content_block: { type: 'text', text: '' } });
+        events.push({ type: 'content_block_delta', index, delta: { type: 'text_delta', text: block.text } });
+        break;
+      case 'thinking':
+        events.push({ type: 'content_block_start', index, content_block: { type: 'thinking', thinking: '' } });
+        events.push({ type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: block.thinking } });
+        if (block.signature) {
+          events.push({ type: 'content_block_delta', index, delta: { type: 'signature_delta', signature: block.signature } });
+        }
+        break;
+      case 'tool_use':
+        events.push({ type: 'content_block_start', index, content_block: { type: 'tool_use', id: block.id, name: block.name, input: {} } });
+        events.push({ type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input) } });
+        break;
+      case 'redacted_thinking':
+        events.push({ type: 'content_block_start', index, content_block: block });
+        break;
+    }
+    events.push({ type: 'content_block_stop', index });
+  });
+
+  events.push({
+    type: 'message_delta',
+    delta: {
+      stop_reason: message.stop_reason,
+      stop_sequence: message.stop_sequence
+    },
+    usage: message.usage
+  });
+  events.push({ type: 'message_stop' });
+  return events;
+}
+
+// Streams a message that is already complete, such as a cached response
+export function replayMessageStream(message: AnthropicResponse, expressRes: Response) {
+  setStreamHeaders(expressRes);
+  for (const event of messageToEvents(message)) {
+    expressRes.write(formatSSEEvent(event));
+  }
+  expressRes.end();
+}
+
+// Resolves with the final token usage and message once the client stream has ended
+export async function handleStreamingResponse(openRouterResponse: globalThis.Response, expressRes: Response, options: StreamOptions): Promise<StreamResult> {
+  setStreamHeaders(expressRes);
+
+  const reader = openRouterResponse.body?.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  const translator = new StreamTranslator(options);
+  const accumulator = new MessageAccumulator();
+
+  let sentFirstToken = false;
+  const writeEvents = (events: any[]) => {
+    for (const event of events) {
+      if (!sentFirstToken && event.type === 'content_block_delta') {
+        sentFirstToken = true;
+        options.onFirstToken?.();
+      }
+      accumulator.add(event);
+      expressRes.write(formatSSEEvent(event));
+    }
+  };
+
+  // Pings are only valid once message_start has gone out
+  const pingTimer = setInterval(() => {
+    if (translator.hasStarted) {
+      writeEvents([{ type: 'ping' }]);
+    }
+  }, PING_INTERVAL);
+
+  try {
+    if (!reader) {
+      throw new Error('Upstream response has no body');
+    }
+
+    const handleMessages = (messages: SSEMessage[]) => {
+      for (const message of messages) {
+        if (message.type === 'comment') {
+          // Pass upstream keepalives (": OPENROUTER PROCESSING") through
+          expressRes.write(`: ${message.comment}\n\n`);
+          continue;
+        }
+
+        // [DONE] is handled by finish() below
+        if (message.data === '[DONE]') {
+          continue;
+        }
+
+        try {
+          const parsed = JSON.parse(message.data);
+          writeEvents(translator.transformChunk(parsed));
+        } catch (e) {
+          // Skip invalid JSON
+          console.error('Failed to parse stream chunk:', e);
         }
-      };
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      handleMessages(parser.push(decoder.decode(value, { stream: true })));
     }
+
+    handleMessages(parser.push(decoder.decode()));
+    handleMessages(parser.flush());
+  } catch (error) {
+    console.error('Streaming error:', error);
+    writeEvents(translator.fail('api_error', 'Upstream stream was interrupted'));
+  } finally {
+    clearInterval(pingTimer);
+    // A body that ends without a finish reason was cut off somewhere upstream
+    if (!translator.completed && !translator.error) {
+      writeEvents(translator.fail('api_error', 'Upstream stream ended before the response was complete'));
+    }
+    writeEvents(translator.finish());
+    expressRes.end();
   }
 
-  return null;
+  return { usage: translator.usage, message: accumulator.message!, complete: translator.completed, error: translator.error };
 }
 
 function mapFinishReason(openRouterReason: string): string {
@@ -122,7 +558,10 @@ function mapFinishReason(openRouterReason: string): string {
       return 'max_tokens';
     case 'content_filter':
       return 'stop_sequence';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
     default:
       return openRouterReason;
   }
-}
\ No newline at end of file
+}
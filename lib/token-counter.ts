@@ -0,0 +1,87 @@
+import { OpenRouterContentPart, OpenRouterRequest } from './request-handler';
+
+// Average characters per token for English-heavy text, by model family.
+// These are estimates from each family's tokenizer on typical prompts; no
+// upstream call is made so counting works offline and costs nothing.
+const CHARS_PER_TOKEN: Array<{ pattern: RegExp; ratio: number }> = [
+  { pattern: /anthropic\/|claude/i, ratio: 3.5 },
+  { pattern: /openai\/|gpt|\bo[134]\b/i, ratio: 4.0 },
+  { pattern: /google\/|gemini|gemma/i, ratio: 4.0 },
+  { pattern: /meta-llama\/|llama/i, ratio: 3.8 },
+  { pattern: /mistral|mixtral|codestral/i, ratio: 3.6 },
+  { pattern: /deepseek/i, ratio: 3.7 },
+  { pattern: /qwen/i, ratio: 3.7 }
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.8;
+
+const MESSAGE_OVERHEAD = 4; // Role and separator tokens per message
+const TOOL_OVERHEAD = 10; // Function wrapper tokens per tool definition
+const IMAGE_TOKENS = 1600; // Typical cost of a ~1MP image
+const FILE_TOKENS = 1500; // Per-document estimate when page count is unknown
+
+export function charsPerToken(model: string): number {
+  const family = CHARS_PER_TOKEN.find(({ pattern }) => pattern.test(model));
+  return family ? family.ratio : DEFAULT_CHARS_PER_TOKEN;
+}
+
+export function estimateTextTokens(text: string, ratio: number): number {
+  if (!text) {
+    return 0;
+  }
+
+  // Non-Latin scripts (CJK, emoji) tokenize at roughly one token per character
+  let asciiChars = 0;
+  let otherChars = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      asciiChars++;
+    } else {
+      otherChars++;
+    }
+  }
+  return Math.ceil(asciiChars / ratio) + otherChars;
+}
+
+function estimatePartTokens(part: OpenRouterContentPart, ratio: number): number {
+  switch (part.type) {
+    case 'text':
+      return estimateTextTokens(part.text, ratio);
+    case 'image_url':
+      return IMAGE_TOKENS;
+    case 'file':
+      return FILE_TOKENS;
+    default:
+      return 0;
+  }
+}
+
+// Estimates prompt tokens for an already translated request
+export function estimateInputTokens(request: OpenRouterRequest): number {
+  const ratio = charsPerToken(request.model);
+  let tokens = 0;
+
+  for (const message of request.messages) {
+    tokens += MESSAGE_OVERHEAD;
+    if (typeof message.content === 'string') {
+      tokens += estimateTextTokens(message.content, ratio);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        tokens += estimatePartTokens(part, ratio);
+      }
+    }
+    for (const toolCall of message.tool_calls || []) {
+      tokens += estimateTextTokens(toolCall.function.name + toolCall.function.arguments, ratio);
+    }
+    for (const detail of message.reasoning_details || []) {
+      if (detail.type === 'reasoning.text') {
+        tokens += estimateTextTokens(detail.text, ratio);
+      }
+    }
+  }
+
+  for (const tool of request.tools || []) {
+    tokens += TOOL_OVERHEAD + estimateTextTokens(JSON.stringify(tool.function), ratio);
+  }
+
+  return tokens;
+}
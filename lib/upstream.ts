@@ -0,0 +1,130 @@
+import { OpenRouterRequest } from './request-handler';
+import { getProvider } from './providers';
+import { secondsSince, upstreamLatency } from './metrics';
+import { getFixtureMode, recordResponse, replayResponse } from './fixtures';
+import { UpstreamTarget } from './routing';
+
+const MAX_RETRIES = Number(process.env.UPSTREAM_MAX_RETRIES ?? 2); // Retries per model before falling back
+const BASE_DELAY = 500;
+const MAX_DELAY = 8 * 1000;
+const MAX_RETRY_AFTER = 30 * 1000; // Longer Retry-After waits skip to the next model
+
+export interface UpstreamResult {
+  response: globalThis.Response;
+  // Provider and model that produced the response
+  provider: string;
+  model: string;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Unavailable models are worth trying the next model for, but not retrying
+function shouldFallBack(status: number): boolean {
+  return isRetryable(status) || status === 404;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(MAX_DELAY, BASE_DELAY * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function sendRequest(target: UpstreamTarget, openRouterRequest: OpenRouterRequest): Promise<globalThis.Response> {
+  const provider = getProvider(target.provider);
+  const request = { ...openRouterRequest, model: target.model };
+  const fixtureMode = getFixtureMode();
+  if (fixtureMode === 'replay') {
+    return replayResponse(target.provider, request);
+  }
+
+  const startedAt = performance.now();
+  const response = await fetch(provider.chatCompletionsUrl(), {
+    method: 'POST',
+    headers: provider.headers(),
+    body: JSON.stringify(provider.prepareRequest(request))
+  });
+  upstreamLatency.observe({ provider: target.provider, upstream_model: target.model }, secondsSince(startedAt));
+
+  if (fixtureMode === 'record') {
+    return recordResponse(target.provider, request, response, performance.now() - startedAt);
+  }
+  return response;
+}
+
+/**
+ * Sends the request to each upstream target in turn until one succeeds. Retryable
+ * failures (429, 5xx, network errors) are retried with backoff on the same
+ * model first. Only response headers have been received when this returns,
+ * so nothing has been streamed to the client yet and retrying is safe.
+ *
+ * Returns the last failed response when every model fails, and throws only
+ * when the last attempt failed without any response.
+ */
+export async function fetchWithFallback(openRouterRequest: OpenRouterRequest, targets: UpstreamTarget[]): Promise<UpstreamResult> {
+  let lastResult: UpstreamResult | null = null;
+  let lastError: unknown = null;
+
+  for (const [targetIndex, target] of targets.entries()) {
+    const { provider, model } = target;
+    const isLastTarget = targetIndex === targets.length - 1;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      let response: globalThis.Response | null = null;
+      try {
+        response = await sendRequest(target, openRouterRequest);
+      } catch (error) {
+        console.error(`Upstream request to ${provider}/${model} failed:`, error);
+        lastError = error;
+      }
+
+      if (response) {
+        if (response.ok || !shouldFallBack(response.status)) {
+          return { response, provider, model };
+        }
+        lastResult = { response, provider, model };
+        lastError = null;
+      }
+
+      const retryAfter = response ? parseRetryAfter(response.headers.get('retry-after')) : null;
+      const canRetry = attempt < MAX_RETRIES
+        && (!response || isRetryable(response.status))
+        && (retryAfter === null || retryAfter <= MAX_RETRY_AFTER);
+
+      if (!canRetry) {
+        break;
+      }
+
+      // Release the failed body before trying again
+      await response?.body?.cancel().catch(() => {});
+      await sleep(retryAfter ?? backoffDelay(attempt));
+    }
+
+    if (!isLastTarget) {
+      await lastResult?.response.body?.cancel().catch(() => {});
+      const next = targets[targetIndex + 1];
+      console.error(`Upstream ${provider}/${model} failed, falling back to ${next.provider}/${next.model}`);
+    }
+  }
+
+  if (lastError || !lastResult) {
+    throw lastError;
+  }
+  return lastResult;
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { OpenRouterUsage } from './request-handler';
+import { dataPath } from './storage';
+
+// Token counts for one request; reasoning tokens are a subset of output, and
+// cached (cache read) and cache write tokens are subsets of input
+export interface RequestUsage {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens: number;
+  // USD as reported by the upstream, when it reports it
+  cost?: number;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  keyId: string;
+  // Model the client asked for, and the upstream that answered
+  model: string;
+  provider: string;
+  upstreamModel: string;
+  stream: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  // Missing from lines written before cost tracking
+  reasoningTokens?: number;
+  cachedTokens?: number;
+  cacheWriteTokens?: number;
+  // USD, from the upstream's reported cost or catalog pricing
+  cost?: number;
+}
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  keyId: string;
+  firstUsedAt: string | null;
+  lastUsedAt: string | null;
+  byModel: Record<string, UsageTotals>;
+}
+
+// One JSON line per completed request, shared with the admin CLI
+const USAGE_LOG_PATH = process.env.USAGE_LOG_PATH || dataPath('usage.jsonl');
+
+export function fromOpenRouterUsage(usage: OpenRouterUsage | undefined): RequestUsage {
+  return {
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens || 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+    cacheWriteTokens: usage?.prompt_tokens_details?.cache_write_tokens || 0,
+    cost: typeof usage?.cost === 'number' ? usage.cost : undefined
+  };
+}
+
+// UTC day and month a usage line counts towards, as timestamp prefixes
+export function usagePeriods(now = new Date()): { day: string; month: string } {
+  const iso = now.toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+export function nextPeriodStart(period: 'day' | 'month'): Date {
+  const now = new Date();
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export function recordUsage(record: Omit<UsageRecord, 'timestamp'>) {
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), ...record }) + '\n';
+  fs.promises.mkdir(path.dirname(USAGE_LOG_PATH), { recursive: true })
+    .then(() => fs.promises.appendFile(USAGE_LOG_PATH, line))
+    .catch(error => {
+      // Usage logging failures shouldn't break the API
+      console.error('Failed to record usage:', error);
+    });
+}
+
+export function readUsage(): UsageRecord[] {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(USAGE_LOG_PATH, 'utf8');
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error('Failed to read usage log:', error);
+    }
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Skip a line torn by a crash mid-write
+    }
+  }
+  return records;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, reasoningTokens: 0, cachedTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.reasoningTokens += record.reasoningTokens ?? 0;
+  totals.cachedTokens += record.cachedTokens ?? 0;
+  totals.cost += record.cost ?? 0;
+}
+
+function emptySummary(keyId: string): UsageSummary {
+  return {
+    keyId,
+    ...emptyTotals(),
+    firstUsedAt: null,
+    lastUsedAt: null,
+    byModel: {}
+  };
+}
+
+export function summarizeUsage(options: { keyId?: string; since?: Date } = {}): UsageSummary[] {
+  const summaries = new Map<string, UsageSummary>();
+  const since = options.since?.toISOString();
+
+  for (const record of readUsage()) {
+    if (options.keyId && record.keyId !== options.keyId) {
+      continue;
+    }
+    if (since && record.timestamp < since) {
+      continue;
+    }
+
+    let summary = summaries.get(record.keyId);
+    if (!summary) {
+      summary = emptySummary(record.keyId);
+      summaries.set(record.keyId, summary);
+    }
+
+    addToTotals(summary, record);
+    summary.firstUsedAt ??= record.timestamp;
+    summary.lastUsedAt = record.timestamp;
+    addToTotals(summary.byModel[record.model] ??= emptyTotals(), record);
+  }
+
+  if (options.keyId && !summaries.has(options.keyId)) {
+    summaries.set(options.keyId, emptySummary(options.keyId));
+  }
+  return [...summaries.values()];
+}
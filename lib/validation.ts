@@ -0,0 +1,292 @@
+import { AnthropicRequest } from './request-handler';
+
+/**
+ * Checks Messages API request bodies before they are translated, so a
+ * malformed request gets the 400 invalid_request_error Anthropic would return
+ * rather than failing in the translator or upstream. Messages start with the
+ * path of the offending field, e.g. "messages.2.content.0.type: ...".
+ */
+
+export class InvalidRequestError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.path = path;
+  }
+}
+
+export interface ValidationOptions {
+  // count_tokens takes the same body but without max_tokens
+  requireMaxTokens?: boolean;
+}
+
+const USER_BLOCKS = ['text', 'image', 'document', 'tool_result'];
+const ASSISTANT_BLOCKS = ['text', 'tool_use', 'thinking', 'redacted_thinking'];
+const TOOL_RESULT_BLOCKS = ['text', 'image', 'document'];
+const TOOL_CHOICES = ['auto', 'any', 'none', 'tool'];
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,128}$/;
+const MIN_THINKING_BUDGET = 1024;
+
+function fail(path: string, message: string): never {
+  throw new InvalidRequestError(path, message);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function requireField(parent: Record<string, any>, key: string, path: string) {
+  if (parent[key] === undefined) {
+    fail(fieldPath(path, key), 'Field required');
+  }
+}
+
+function checkString(parent: Record<string, any>, key: string, path: string, required = true) {
+  if (required) {
+    requireField(parent, key, path);
+  }
+  if (parent[key] !== undefined && typeof parent[key] !== 'string') {
+    fail(fieldPath(path, key), 'Input should be a valid string');
+  }
+}
+
+function checkObject(parent: Record<string, any>, key: string, path: string, required = true) {
+  if (required) {
+    requireField(parent, key, path);
+  }
+  if (parent[key] !== undefined && !isObject(parent[key])) {
+    fail(fieldPath(path, key), 'Input should be a valid dictionary');
+  }
+}
+
+function checkBoolean(parent: Record<string, any>, key: string, path: string) {
+  if (parent[key] !== undefined && typeof parent[key] !== 'boolean') {
+    fail(fieldPath(path, key), 'Input should be a valid boolean');
+  }
+}
+
+function checkNumber(parent: Record<string, any>, key: string, min: number, max: number) {
+  const value = parent[key];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(key, 'Input should be a valid number');
+  }
+  if (value < min || value > max) {
+    fail(key, `Input should be between ${min} and ${max}`);
+  }
+}
+
+function checkInteger(parent: Record<string, any>, key: string, path: string, min: number) {
+  const value = parent[key];
+  if (value === undefined) {
+    return;
+  }
+  if (!Number.isInteger(value)) {
+    fail(fieldPath(path, key), 'Input should be a valid integer');
+  }
+  if (value < min) {
+    fail(fieldPath(path, key), `Input should be greater than or equal to ${min}`);
+  }
+}
+
+function checkCacheControl(block: Record<string, any>, path: string) {
+  checkObject(block, 'cache_control', path, false);
+  if (block.cache_control && block.cache_control.type !== 'ephemeral') {
+    fail(`${path}.cache_control.type`, "Input should be 'ephemeral'");
+  }
+}
+
+function checkContent(content: unknown, path: string, allowed: string[]) {
+  if (typeof content === 'string') {
+    return;
+  }
+  if (content === undefined) {
+    fail(path, 'Field required');
+  }
+  if (!Array.isArray(content)) {
+    fail(path, 'Input should be a valid string or list of content blocks');
+  }
+  content.forEach((block, index) => checkBlock(block, `${path}.${index}`, allowed));
+}
+
+function checkBlock(block: unknown, path: string, allowed: string[]) {
+  if (!isObject(block)) {
+    fail(path, 'Input should be a valid dictionary');
+  }
+  if (!allowed.includes(block.type)) {
+    const expected = allowed.map(type => `'${type}'`).join(', ');
+    fail(`${path}.type`, `Input tag '${block.type}' does not match any of the expected tags: ${expected}`);
+  }
+
+  switch (block.type) {
+    case 'text':
+      checkString(block, 'text', path);
+      break;
+    case 'image':
+    case 'document':
+      checkObject(block, 'source', path);
+      checkString(block.source, 'type', `${path}.source`);
+      break;
+    case 'tool_use':
+      checkString(block, 'id', path);
+      checkString(block, 'name', path);
+      checkObject(block, 'input', path);
+      break;
+    case 'tool_result':
+      checkString(block, 'tool_use_id', path);
+      if (block.content !== undefined) {
+        checkContent(block.content, `${path}.content`, TOOL_RESULT_BLOCKS);
+      }
+      checkBoolean(block, 'is_error', path);
+      break;
+    case 'thinking':
+      checkString(block, 'thinking', path);
+      checkString(block, 'signature', path);
+      break;
+    case 'redacted_thinking':
+      checkString(block, 'data', path);
+      break;
+  }
+  checkCacheControl(block, path);
+}
+
+function checkMessages(messages: unknown) {
+  if (messages === undefined) {
+    fail('messages', 'Field required');
+  }
+  if (!Array.isArray(messages)) {
+    fail('messages', 'Input should be a valid list');
+  }
+  if (messages.length === 0) {
+    fail('messages', 'At least one message is required');
+  }
+
+  messages.forEach((message, index) => {
+    const path = `messages.${index}`;
+    if (!isObject(message)) {
+      fail(path, 'Input should be a valid dictionary');
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      fail(`${path}.role`, "Input should be 'user' or 'assistant'");
+    }
+    if (index > 0 && messages[index - 1].role === message.role) {
+      fail(`${path}.role`, `roles must alternate between "user" and "assistant", but found multiple "${message.role}" roles in a row`);
+    }
+    checkContent(message.content, `${path}.content`, message.role === 'user' ? USER_BLOCKS : ASSISTANT_BLOCKS);
+  });
+}
+
+function checkTools(tools: unknown): Set<string> {
+  const names = new Set<string>();
+  if (tools === undefined) {
+    return names;
+  }
+  if (!Array.isArray(tools)) {
+    fail('tools', 'Input should be a valid list');
+  }
+
+  tools.forEach((tool, index) => {
+    const path = `tools.${index}`;
+    if (!isObject(tool)) {
+      fail(path, 'Input should be a valid dictionary');
+    }
+    checkString(tool, 'name', path);
+    if (!TOOL_NAME.test(tool.name)) {
+      fail(`${path}.name`, `String should match pattern '${TOOL_NAME.source}'`);
+    }
+    if (names.has(tool.name)) {
+      fail(`${path}.name`, `Tool names must be unique, ${tool.name} is used more than once`);
+    }
+    names.add(tool.name);
+    checkString(tool, 'description', path, false);
+
+    const schemaPath = `${path}.input_schema`;
+    checkObject(tool, 'input_schema', path);
+    const schema = tool.input_schema;
+    if (schema.type !== 'object') {
+      fail(`${schemaPath}.type`, "Input should be 'object'");
+    }
+    checkObject(schema, 'properties', schemaPath, false);
+    if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((name: unknown) => typeof name !== 'string'))) {
+      fail(`${schemaPath}.required`, 'Input should be a valid list of strings');
+    }
+    checkCacheControl(tool, path);
+  });
+  return names;
+}
+
+function checkToolChoice(toolChoice: unknown, toolNames: Set<string>) {
+  if (toolChoice === undefined) {
+    return;
+  }
+  if (!isObject(toolChoice)) {
+    fail('tool_choice', 'Input should be a valid dictionary');
+  }
+  if (!TOOL_CHOICES.includes(toolChoice.type)) {
+    fail('tool_choice.type', `Input should be ${TOOL_CHOICES.map(type => `'${type}'`).join(', ')}`);
+  }
+  checkBoolean(toolChoice, 'disable_parallel_tool_use', 'tool_choice');
+  if (toolChoice.type === 'tool') {
+    checkString(toolChoice, 'name', 'tool_choice');
+    if (!toolNames.has(toolChoice.name)) {
+      fail('tool_choice.name', `Tool ${toolChoice.name} is not defined in tools`);
+    }
+  }
+}
+
+function checkThinking(body: Record<string, any>) {
+  const thinking = body.thinking;
+  if (thinking === undefined) {
+    return;
+  }
+  if (!isObject(thinking)) {
+    fail('thinking', 'Input should be a valid dictionary');
+  }
+  if (thinking.type === 'disabled') {
+    return;
+  }
+  if (thinking.type !== 'enabled') {
+    fail('thinking.type', "Input should be 'enabled' or 'disabled'");
+  }
+  requireField(thinking, 'budget_tokens', 'thinking');
+  checkInteger(thinking, 'budget_tokens', 'thinking', MIN_THINKING_BUDGET);
+  if (body.max_tokens !== undefined && thinking.budget_tokens >= body.max_tokens) {
+    fail('max_tokens', 'must be greater than thinking.budget_tokens');
+  }
+}
+
+// Returns the body typed as a request once it has been checked; throws InvalidRequestError
+export function validateMessagesRequest(body: unknown, options: ValidationOptions = {}): AnthropicRequest {
+  if (!isObject(body)) {
+    fail('', 'Request body must be a JSON object');
+  }
+
+  checkString(body, 'model', '');
+  if (options.requireMaxTokens ?? true) {
+    requireField(body, 'max_tokens', '');
+  }
+  checkInteger(body, 'max_tokens', '', 1);
+  checkNumber(body, 'temperature', 0, 1);
+  checkNumber(body, 'top_p', 0, 1);
+  checkInteger(body, 'top_k', '', 0);
+  if (body.stop_sequences !== undefined && (!Array.isArray(body.stop_sequences) || body.stop_sequences.some((stop: unknown) => typeof stop !== 'string'))) {
+    fail('stop_sequences', 'Input should be a valid list of strings');
+  }
+  checkBoolean(body, 'stream', '');
+  checkObject(body, 'metadata', '', false);
+  if (body.system !== undefined) {
+    checkContent(body.system, 'system', ['text']);
+  }
+  checkMessages(body.messages);
+  checkToolChoice(body.tool_choice, checkTools(body.tools));
+  checkThinking(body);
+
+  return body as AnthropicRequest;
+}
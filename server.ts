@@ -1,9 +1,35 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { validateApiKey, checkRateLimit } from './lib/auth';
-import { AnthropicRequestHandler } from './lib/request-handler';
-import { handleStreamingResponse } from './lib/streaming-handler';
+import { validateApiKey, isModelAllowed } from './lib/auth';
+import { ApiKeyRecord } from './lib/key-store';
+import { AnthropicRequest, AnthropicRequestHandler, AnthropicResponse, OpenRouterRequest, OpenRouterResponse } from './lib/request-handler';
+import { checkChatRequest, OpenAIChatRequest, OpenAIRequestHandler, relayChatStream } from './lib/openai-handler';
+import { ResolvedRoute } from './lib/routing';
+import { handleStreamingResponse, replayMessageStream } from './lib/streaming-handler';
+import { CACHE_HEADER, responseCache, responseCacheKey, shouldUseCache } from './lib/response-cache';
+import { estimateInputTokens } from './lib/token-counter';
+import { findModel, listModels, toAnthropicModel } from './lib/model-catalog';
+import { fetchWithFallback, UpstreamResult } from './lib/upstream';
+import { checkRateLimit, recordTokenUsage } from './lib/rate-limit';
+import { fromOpenRouterUsage, recordUsage, RequestUsage } from './lib/usage';
+import { checkSpendLimit, computeCost, recordSpend } from './lib/spend';
+import { createAdminRouter } from './lib/admin';
+import { batchQueue, createBatchRouter } from './lib/batches';
+import { anthropicErrors, ErrorFormat, openAIErrors, sendError, sendFormattedError, TranslatedError, translateCompletionError, translateUpstreamError } from './lib/errors';
+import { InvalidRequestError, validateMessagesRequest, ValidationOptions } from './lib/validation';
+import { capturePrompt, logError, logFields, requestLogger } from './lib/request-log';
+import {
+  inputTokensTotal,
+  metricsHandler,
+  outputTokensTotal,
+  rateLimitRejections,
+  responseCacheLookups,
+  secondsSince,
+  streamDuration,
+  timeToFirstToken,
+  trackRequests
+} from './lib/metrics';
 
 // Load environment variables
 dotenv.config();
@@ -13,126 +39,466 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
+app.use(requestLogger);
+// Batches carry many prompts at once; Anthropic accepts up to 256MB
+app.use(['/v1/messages/batches', '/api/v1/messages/batches'], express.json({ limit: '256mb' }));
 app.use(express.json({ limit: '10mb' }));
+app.use(trackRequests);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Main API endpoint - support both paths for compatibility
-const messageHandler = async (req: express.Request, res: express.Response) => {
+// Prometheus metrics, unauthenticated like /health
+app.get('/metrics', metricsHandler);
+
+// Validate the client API key before any handler runs, answering failures in
+// the format of the route's API
+const apiKeyAuth = (format: ErrorFormat) => async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // OpenAI clients send the key as a bearer token instead
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = (req.headers['x-api-key'] as string) || bearer;
+  if (!apiKey) {
+    return sendFormattedError(res, format, 'authentication_error', 'Missing x-api-key or Authorization header');
+  }
+
+  const keyRecord = await validateApiKey(apiKey);
+  if (!keyRecord) {
+    return sendFormattedError(res, format, 'authentication_error', 'Invalid API key');
+  }
+
+  res.locals.apiKeyRecord = keyRecord;
+  next();
+};
+const requireApiKey = apiKeyAuth(anthropicErrors);
+const requireChatApiKey = apiKeyAuth(openAIErrors);
+
+// Enforces the key's model allowlist, spend budget and rate limits. Sends the
+// rejection and returns null when the request may not go upstream; otherwise
+// returns the estimated prompt tokens reserved against the key's limits.
+function admitRequest(res: express.Response, keyRecord: ApiKeyRecord, route: ResolvedRoute, openRouterRequest: OpenRouterRequest, format: ErrorFormat): number | null {
+  if (!isModelAllowed(keyRecord, route.requestedModel, route.model)) {
+    sendFormattedError(res, format, 'permission_error', `This API key is not allowed to use model ${route.requestedModel}`);
+    return null;
+  }
+
+  // Reject keys that are over their spend budget
+  const spend = checkSpendLimit(keyRecord);
+  if (!spend.allowed) {
+    rateLimitRejections.inc({ limit: spend.limit });
+    logFields(res, { rejected_by: spend.limit });
+    sendFormattedError(res, format, 'billing_error', spend.message!);
+    return null;
+  }
+
+  // Check rate limits and quotas against the estimated prompt size
+  const estimatedInputTokens = estimateInputTokens(openRouterRequest);
+  const rateLimit = checkRateLimit(keyRecord, estimatedInputTokens);
+  res.set(rateLimit.headers);
+  if (!rateLimit.allowed) {
+    rateLimitRejections.inc({ limit: rateLimit.limit });
+    logFields(res, { rejected_by: rateLimit.limit });
+    res.set('retry-after', String(rateLimit.retryAfter));
+    sendFormattedError(res, format, 'rate_limit_error', rateLimit.message!);
+    return null;
+  }
+
+  return estimatedInputTokens;
+}
+
+// Looks the request up in the response cache, when it is enabled, and reports
+// hit, miss or bypass in the response header. The key is set for misses, so the
+// response can be stored once it completes.
+function checkResponseCache(req: express.Request, res: express.Response, openRouterRequest: OpenRouterRequest): { key: string | null; message: AnthropicResponse | null } {
+  if (!responseCache) {
+    return { key: null, message: null };
+  }
+  const key = shouldUseCache(openRouterRequest, req.get(CACHE_HEADER)) ? responseCacheKey(openRouterRequest) : null;
+  const message = key ? responseCache.get(key) : null;
+  const result = message ? 'hit' : key ? 'miss' : 'bypass';
+  res.set(CACHE_HEADER, result);
+  responseCacheLookups.inc({ result });
+  logFields(res, { cache: result });
+  return { key: message ? null : key, message };
+}
+
+// Checks the Messages request body and sends a 400 when it is malformed;
+// returns the typed request, or null when it was rejected
+function parseMessagesRequest(req: express.Request, res: express.Response, options?: ValidationOptions): AnthropicRequest | null {
   try {
-    // Validate API key
-    const apiKey = req.headers['x-api-key'] as string;
-    if (!apiKey) {
-      return res.status(401).json({
-        error: {
-          type: 'authentication_error',
-          message: 'Missing x-api-key header'
-        }
-      });
+    return validateMessagesRequest(req.body, options);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      logFields(res, { error: error.message });
+      sendError(res, 400, 'invalid_request_error', error.message);
+      return null;
     }
+    throw error;
+  }
+}
 
-    const isValid = await validateApiKey(apiKey);
-    if (!isValid) {
-      return res.status(401).json({
-        error: {
-          type: 'authentication_error',
-          message: 'Invalid API key'
-        }
-      });
-    }
+// Checks the Chat Completions body and sends a 400 in OpenAI's error format,
+// which OpenAI clients parse; returns the typed request, or null when rejected
+function parseChatRequest(req: express.Request, res: express.Response): OpenAIChatRequest | null {
+  const problem = checkChatRequest(req.body);
+  if (!problem) {
+    return req.body as OpenAIChatRequest;
+  }
+  logFields(res, { error: problem.message });
+  sendFormattedError(res, openAIErrors, 'invalid_request_error', problem.message, { param: problem.param || null });
+  return null;
+}
 
-    // Check rate limiting
-    const rateLimit = await checkRateLimit(apiKey);
-    if (!rateLimit.allowed) {
-      res.set({
-        'X-RateLimit-Limit': '100',
-        'X-RateLimit-Remaining': String(rateLimit.remaining),
-        'X-RateLimit-Reset': String(Math.floor(rateLimit.resetAt / 1000))
-      });
-      return res.status(429).json({
-        error: {
-          type: 'rate_limit_error',
-          message: 'Rate limit exceeded. Please try again later.'
-        }
-      });
-    }
+// Relays a failed upstream response as the error the client's API would have returned
+async function sendUpstreamError(req: express.Request, res: express.Response, keyRecord: ApiKeyRecord, response: globalThis.Response, format: ErrorFormat) {
+  sendTranslatedError(req, res, keyRecord, await translateUpstreamError(response), response.status, format);
+}
 
-    // Set rate limit headers for successful requests too
-    res.set({
-      'X-RateLimit-Limit': '100',
-      'X-RateLimit-Remaining': String(rateLimit.remaining),
-      'X-RateLimit-Reset': String(Math.floor(rateLimit.resetAt / 1000))
-    });
+function sendTranslatedError(req: express.Request, res: express.Response, keyRecord: ApiKeyRecord, error: TranslatedError, upstreamStatus: number, format: ErrorFormat) {
+  const { type, message, ...details } = error.body.error;
+  const { status, body } = format(type, message, details);
+  logFields(res, { upstream_status: upstreamStatus, error: message });
+  capturePrompt({ requestId: res.locals.requestId, keyId: keyRecord.id, request: req.body, response: body });
+  if (error.retryAfter) {
+    res.set('retry-after', error.retryAfter);
+  }
+  res.status(status).json(body);
+}
+
+// Sends the request upstream. When no upstream could be reached at all, returns
+// the reserved input tokens, sends an api_error and returns null.
+async function fetchUpstream(res: express.Response, keyRecord: ApiKeyRecord, route: ResolvedRoute, openRouterRequest: OpenRouterRequest, estimatedInputTokens: number, format: ErrorFormat): Promise<UpstreamResult | null> {
+  try {
+    return await fetchWithFallback(openRouterRequest, route.targets);
+  } catch (error) {
+    logError(res, error);
+    recordTokenUsage(keyRecord, estimatedInputTokens, { inputTokens: 0, outputTokens: 0 });
+    sendFormattedError(res, format, 'api_error', 'Could not reach the upstream API');
+    return null;
+  }
+}
+
+// Sets the upstream headers and metric labels once an upstream has answered
+function labelUpstream(res: express.Response, route: ResolvedRoute, upstream: UpstreamResult) {
+  res.set({
+    'x-anthroRouter-upstream-model': upstream.model,
+    'x-anthroRouter-upstream-provider': upstream.provider
+  });
+  const upstreamLabels = {
+    model: route.requestedModel,
+    provider: upstream.provider,
+    upstream_model: upstream.model
+  };
+  res.locals.routeInfo = upstreamLabels;
+  return upstreamLabels;
+}
+
+// The log line is written when the response closes, so call this before responding
+function logUsage(res: express.Response, usage: RequestUsage, stopReason: string | null) {
+  logFields(res, {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    reasoning_tokens: usage.reasoningTokens,
+    cached_tokens: usage.cachedTokens,
+    stop_reason: stopReason
+  });
+}
+
+// Settles the rate limit reservation and records tokens, usage and spend
+async function recordCompletion(keyRecord: ApiKeyRecord, route: ResolvedRoute, upstream: UpstreamResult, stream: boolean, estimatedInputTokens: number, usage: RequestUsage) {
+  const upstreamLabels = { model: route.requestedModel, provider: upstream.provider, upstream_model: upstream.model };
+  recordTokenUsage(keyRecord, estimatedInputTokens, usage);
+  inputTokensTotal.inc(upstreamLabels, usage.inputTokens);
+  outputTokensTotal.inc(upstreamLabels, usage.outputTokens);
+  const cost = await computeCost(upstream.model, usage);
+  recordUsage({
+    keyId: keyRecord.id,
+    model: route.requestedModel,
+    provider: upstream.provider,
+    upstreamModel: upstream.model,
+    stream,
+    ...usage,
+    cost
+  });
+  recordSpend(keyRecord, cost);
+}
+
+// Main API endpoint - support both paths for compatibility
+const messageHandler = async (req: express.Request, res: express.Response) => {
+  const startedAt = performance.now();
+  try {
+    const keyRecord: ApiKeyRecord = res.locals.apiKeyRecord;
+
+    const request = parseMessagesRequest(req, res);
+    if (!request) {
+      return;
+    }
 
     // Transform request
-    const handler = new AnthropicRequestHandler(req.body);
+    const handler = new AnthropicRequestHandler(request);
+    res.locals.routeInfo = { model: handler.route.requestedModel };
     const openRouterRequest = handler.transformToOpenRouter();
 
+    const estimatedInputTokens = admitRequest(res, keyRecord, handler.route, openRouterRequest, anthropicErrors);
+    if (estimatedInputTokens === null) {
+      return;
+    }
+
     // Check if streaming is requested
-    const isStreaming = req.body.stream ?? false;
-
-    // Make request to OpenRouter
-    const openRouterResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.SITE_URL || 'http://localhost:3000',
-        'X-Title': 'Anthropic Proxy'
-      },
-      body: JSON.stringify(openRouterRequest)
-    });
+    const isStreaming = request.stream ?? false;
+    logFields(res, { stream: isStreaming });
+
+    const cached = checkResponseCache(req, res, openRouterRequest);
+    if (cached.message) {
+      // Nothing goes upstream; return the reserved input tokens
+      recordTokenUsage(keyRecord, estimatedInputTokens, { inputTokens: 0, outputTokens: 0 });
+      const message = { ...cached.message, model: handler.responseModel };
+      if (isStreaming) {
+        replayMessageStream(message, res);
+      } else {
+        res.json(message);
+      }
+      capturePrompt({ requestId: res.locals.requestId, keyId: keyRecord.id, request: req.body, response: message });
+      return;
+    }
+
+    // Make the upstream request, retrying and falling back before any bytes are sent
+    const upstream = await fetchUpstream(res, keyRecord, handler.route, openRouterRequest, estimatedInputTokens, anthropicErrors);
+    if (!upstream) {
+      return;
+    }
+    logFields(res, { upstream_ms: Math.round(performance.now() - startedAt) });
+    const openRouterResponse = upstream.response;
+    const upstreamLabels = labelUpstream(res, handler.route, upstream);
 
     if (!openRouterResponse.ok) {
-      const error = await openRouterResponse.json();
-      return res.status(openRouterResponse.status).json({
-        error: {
-          type: 'api_error',
-          message: error.error?.message || 'OpenRouter API error'
-        }
-      });
+      // Nothing was generated; return the reserved input tokens
+      recordTokenUsage(keyRecord, estimatedInputTokens, { inputTokens: 0, outputTokens: 0 });
+      return sendUpstreamError(req, res, keyRecord, openRouterResponse, anthropicErrors);
     }
 
+    let usage: RequestUsage;
+    let message: AnthropicResponse;
+    let complete = true;
     if (isStreaming) {
       // Handle streaming response
-      await handleStreamingResponse(openRouterResponse, res);
+      const streamStartedAt = performance.now();
+      const result = await handleStreamingResponse(openRouterResponse, res, {
+        model: handler.responseModel,
+        inputTokens: estimatedInputTokens,
+        onFirstToken: () => {
+          timeToFirstToken.observe(upstreamLabels, secondsSince(startedAt));
+          logFields(res, { ttft_ms: Math.round(performance.now() - startedAt) });
+        }
+      });
+      streamDuration.observe(upstreamLabels, secondsSince(streamStartedAt));
+      usage = result.usage;
+      message = result.message;
+      complete = result.complete;
+      if (result.error) {
+        logFields(res, { error: result.error });
+      }
     } else {
       // Handle regular response
-      const openRouterData = await openRouterResponse.json();
-      const anthropicResponse = handler.transformToAnthropicResponse(openRouterData);
-      res.json(anthropicResponse);
+      const openRouterData = await openRouterResponse.json() as OpenRouterResponse;
+      const failure = translateCompletionError(openRouterData);
+      if (failure) {
+        // Settle the reservation with whatever the upstream reports it used
+        recordTokenUsage(keyRecord, estimatedInputTokens, fromOpenRouterUsage(openRouterData.usage));
+        return sendTranslatedError(req, res, keyRecord, failure, openRouterResponse.status, anthropicErrors);
+      }
+      message = handler.transformToAnthropicResponse(openRouterData);
+      usage = fromOpenRouterUsage(openRouterData.usage);
     }
+
+    logUsage(res, usage, message.stop_reason);
+    if (!isStreaming) {
+      res.json(message);
+    }
+    // A stream cut off before its finish reason isn't worth replaying
+    if (cached.key && complete) {
+      responseCache!.set(cached.key, message);
+    }
+    capturePrompt({ requestId: res.locals.requestId, keyId: keyRecord.id, request: req.body, response: message });
+    await recordCompletion(keyRecord, handler.route, upstream, isStreaming, estimatedInputTokens, usage);
   } catch (error) {
-    console.error('API error:', error);
-    res.status(500).json({
-      error: {
-        type: 'internal_error',
-        message: 'Internal server error'
+    logError(res, error);
+    sendError(res, 500, 'api_error', 'Internal server error');
+  }
+};
+
+// OpenAI Chat Completions, for clients that only speak that format. Same
+// auth, limits, routing and accounting as messageHandler; the upstream already
+// speaks this dialect, so responses are relayed with only the model renamed.
+const chatCompletionsHandler = async (req: express.Request, res: express.Response) => {
+  const startedAt = performance.now();
+  try {
+    const keyRecord: ApiKeyRecord = res.locals.apiKeyRecord;
+
+    const request = parseChatRequest(req, res);
+    if (!request) {
+      return;
+    }
+    const handler = new OpenAIRequestHandler(request);
+    res.locals.routeInfo = { model: handler.route.requestedModel };
+    const openRouterRequest = handler.transformToOpenRouter();
+
+    const estimatedInputTokens = admitRequest(res, keyRecord, handler.route, openRouterRequest, openAIErrors);
+    if (estimatedInputTokens === null) {
+      return;
+    }
+
+    const isStreaming = openRouterRequest.stream ?? false;
+    logFields(res, { stream: isStreaming });
+
+    const upstream = await fetchUpstream(res, keyRecord, handler.route, openRouterRequest, estimatedInputTokens, openAIErrors);
+    if (!upstream) {
+      return;
+    }
+    logFields(res, { upstream_ms: Math.round(performance.now() - startedAt) });
+    const upstreamLabels = labelUpstream(res, handler.route, upstream);
+
+    if (!upstream.response.ok) {
+      // Nothing was generated; return the reserved input tokens
+      recordTokenUsage(keyRecord, estimatedInputTokens, { inputTokens: 0, outputTokens: 0 });
+      return sendUpstreamError(req, res, keyRecord, upstream.response, openAIErrors);
+    }
+
+    let usage: RequestUsage;
+    let completion: OpenRouterResponse;
+    if (isStreaming) {
+      const streamStartedAt = performance.now();
+      const result = await relayChatStream(upstream.response, res, {
+        model: handler.responseModel,
+        inputTokens: estimatedInputTokens,
+        includeUsage: handler.includeUsage,
+        onFirstToken: () => {
+          timeToFirstToken.observe(upstreamLabels, secondsSince(startedAt));
+          logFields(res, { ttft_ms: Math.round(performance.now() - startedAt) });
+        }
+      });
+      streamDuration.observe(upstreamLabels, secondsSince(streamStartedAt));
+      usage = result.usage;
+      completion = result.completion;
+    } else {
+      const openRouterData = await upstream.response.json() as OpenRouterResponse;
+      const failure = translateCompletionError(openRouterData);
+      if (failure) {
+        recordTokenUsage(keyRecord, estimatedInputTokens, fromOpenRouterUsage(openRouterData.usage));
+        return sendTranslatedError(req, res, keyRecord, failure, upstream.response.status, openAIErrors);
       }
+      completion = handler.transformResponse(openRouterData);
+      usage = fromOpenRouterUsage(completion.usage);
+    }
+
+    logUsage(res, usage, completion.choices[0]?.finish_reason ?? null);
+    if (!isStreaming) {
+      res.json(completion);
+    }
+    capturePrompt({ requestId: res.locals.requestId, keyId: keyRecord.id, request: req.body, response: completion });
+    await recordCompletion(keyRecord, handler.route, upstream, isStreaming, estimatedInputTokens, usage);
+  } catch (error) {
+    logError(res, error);
+    sendFormattedError(res, openAIErrors, 'api_error', 'Internal server error');
+  }
+};
+
+// Token counting - estimated locally from the translated prompt, no upstream call
+const countTokensHandler = (req: express.Request, res: express.Response) => {
+  try {
+    const request = parseMessagesRequest(req, res, { requireMaxTokens: false });
+    if (!request) {
+      return;
+    }
+    const handler = new AnthropicRequestHandler(request);
+    const openRouterRequest = handler.transformToOpenRouter();
+    res.json({ input_tokens: estimateInputTokens(openRouterRequest) });
+  } catch (error) {
+    logError(res, error);
+    sendError(res, 500, 'api_error', 'Internal server error');
+  }
+};
+
+// Model listing backed by the cached OpenRouter catalog
+const listModelsHandler = async (req: express.Request, res: express.Response) => {
+  try {
+    const page = await listModels({
+      after_id: req.query.after_id as string | undefined,
+      before_id: req.query.before_id as string | undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined
     });
+    res.json(page);
+  } catch (error) {
+    logError(res, error);
+    sendError(res, 500, 'api_error', 'Internal server error');
+  }
+};
+
+const getModelHandler = async (req: express.Request, res: express.Response) => {
+  try {
+    // OpenRouter ids contain a slash, so the id is taken from the wildcard path
+    const modelId = req.params[0];
+    const model = await findModel(modelId);
+    if (!model) {
+      return sendError(res, 404, 'not_found_error', `Model ${modelId} not found`);
+    }
+    res.json(toAnthropicModel(model));
+  } catch (error) {
+    logError(res, error);
+    sendError(res, 500, 'api_error', 'Internal server error');
   }
 };
 
-// Register the handler on both paths for compatibility
-app.post('/api/v1/messages', messageHandler);
-app.post('/v1/messages', messageHandler);
+// Register the handlers on both paths for compatibility
+app.use('/api/v1/messages/batches', requireApiKey, createBatchRouter());
+app.use('/v1/messages/batches', requireApiKey, createBatchRouter());
+app.post('/api/v1/messages', requireApiKey, messageHandler);
+app.post('/v1/messages', requireApiKey, messageHandler);
+app.post('/api/v1/messages/count_tokens', requireApiKey, countTokensHandler);
+app.post('/v1/messages/count_tokens', requireApiKey, countTokensHandler);
+app.post('/api/v1/chat/completions', requireChatApiKey, chatCompletionsHandler);
+app.post('/v1/chat/completions', requireChatApiKey, chatCompletionsHandler);
+app.get('/api/v1/models', requireApiKey, listModelsHandler);
+app.get('/v1/models', requireApiKey, listModelsHandler);
+app.get('/api/v1/models/*', requireApiKey, getModelHandler);
+app.get('/v1/models/*', requireApiKey, getModelHandler);
+
+// Key management and usage, protected by ADMIN_TOKEN
+app.use('/admin', createAdminRouter());
 
 // 404 handler
 app.use((req, res) => {
-  res.status(404).json({
-    error: {
-      type: 'not_found',
-      message: `Endpoint ${req.method} ${req.path} not found`
+  sendError(res, 404, 'not_found_error', `Endpoint ${req.method} ${req.path} not found`);
+});
+
+// Body parser failures, which would otherwise get Express's HTML error page
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+  logError(res, error);
+  const format = req.path.endsWith('/chat/completions') ? openAIErrors : anthropicErrors;
+  if (error.type === 'entity.parse.failed') {
+    return sendFormattedError(res, format, 'invalid_request_error', `Request body is not valid JSON: ${error.message}`);
+  }
+  if (error.type === 'entity.too.large') {
+    return sendFormattedError(res, format, 'request_too_large', `Request body exceeds the ${error.limit} byte limit`);
+  }
+  sendFormattedError(res, format, 'api_error', 'Internal server error');
+});
+
+// Start server when run directly; tests import the app and listen themselves
+if (require.main === module) {
+  // Resume batches left unfinished by the last run
+  batchQueue.load();
+  app.listen(PORT, () => {
+    console.log(`🚀 AnthroRouter proxy server running on http://localhost:${PORT}`);
+    console.log(`📝 API endpoint: http://localhost:${PORT}/api/v1/messages`);
+    if (process.env.DEV_MODE === 'true') {
+      console.log(`🔑 Dev mode: test with x-api-key: test-api-key-123`);
     }
   });
-});
+}
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 AnthroRouter proxy server running on http://localhost:${PORT}`);
-  console.log(`📝 API endpoint: http://localhost:${PORT}/api/v1/messages`);
-  console.log(`🔑 Test with x-api-key: test-api-key-123`);
-});
\ No newline at end of file
+export { app };
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-admin-'));
+process.env.USAGE_LOG_PATH = path.join(dataDir, 'usage.jsonl');
+process.env.KEY_STORE_PATH = path.join(dataDir, 'keys.json');
+
+let admin: typeof import('../lib/admin');
+let usage: typeof import('../lib/usage');
+let keyStore: typeof import('../lib/key-store');
+
+before(async () => {
+  admin = await import('../lib/admin');
+  usage = await import('../lib/usage');
+  keyStore = await import('../lib/key-store');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('parses snake_case key fields', () => {
+  const fields = admin.parseKeyFields({
+    name: ' ci ',
+    expires_at: '2030-01-01',
+    allowed_models: ['openai/*'],
+    rate_limits: { requests_per_minute: 30 },
+    spend_limits: { daily_usd: 2.5 }
+  });
+
+  assert.deepEqual(fields, {
+    name: 'ci',
+    expiresAt: '2030-01-01T00:00:00.000Z',
+    allowedModels: ['openai/*'],
+    rateLimits: { requestsPerMinute: 30 },
+    spendLimits: { dailyUsd: 2.5 }
+  });
+});
+
+test('rejects invalid key fields', () => {
+  assert.throws(() => admin.parseKeyFields({ name: '' }), admin.InvalidKeyFieldsError);
+  assert.throws(() => admin.parseKeyFields({ expires_at: 'soon' }), admin.InvalidKeyFieldsError);
+  assert.throws(() => admin.parseKeyFields({ rate_limits: { requests_per_minute: -1 } }), admin.InvalidKeyFieldsError);
+  assert.throws(() => admin.parseKeyFields({ spend_limits: { daily_usd: '5' } }), admin.InvalidKeyFieldsError);
+});
+
+test('updates only the rate limits it is given', () => {
+  const { record } = keyStore.createKey({
+    name: 'a',
+    ...admin.parseKeyFields({ rate_limits: { requests_per_minute: 10, daily_tokens: 5000 } })
+  });
+
+  keyStore.updateKey(record.id, admin.parseKeyFields({ rate_limits: { requests_per_minute: 20 } }));
+  assert.deepEqual(keyStore.getKey(record.id)!.rateLimits, { requestsPerMinute: 20, dailyTokens: 5000 });
+
+  // null resets a single limit to the server default
+  keyStore.updateKey(record.id, admin.parseKeyFields({ rate_limits: { daily_tokens: null } }));
+  assert.deepEqual(keyStore.getKey(record.id)!.rateLimits, { requestsPerMinute: 20 });
+});
+
+test('updates only the spend limits it is given', () => {
+  const { record } = keyStore.createKey({
+    name: 'b',
+    ...admin.parseKeyFields({ spend_limits: { daily_usd: 3, monthly_usd: 50 } })
+  });
+
+  keyStore.updateKey(record.id, admin.parseKeyFields({ spend_limits: { daily_usd: 5 } }));
+  assert.deepEqual(keyStore.getKey(record.id)!.spendLimits, { dailyUsd: 5, monthlyUsd: 50 });
+
+  keyStore.updateKey(record.id, admin.parseKeyFields({ spend_limits: { monthly_usd: null } }));
+  assert.deepEqual(keyStore.getKey(record.id)!.spendLimits, { dailyUsd: 5 });
+});
+
+test('summarizes usage per key and model', () => {
+  const lines = [
+    { timestamp: '2025-01-01T00:00:00.000Z', keyId: 'key_a', model: 'm1', provider: 'openrouter', upstreamModel: 'm1', stream: false, inputTokens: 10, outputTokens: 5 },
+    { timestamp: '2025-01-02T00:00:00.000Z', keyId: 'key_a', model: 'm2', provider: 'openrouter', upstreamModel: 'm2', stream: true, inputTokens: 20, outputTokens: 7, reasoningTokens: 3, cachedTokens: 0, cost: 0.00042 },
+    { timestamp: '2025-01-03T00:00:00.000Z', keyId: 'key_b', model: 'm1', provider: 'openrouter', upstreamModel: 'm1', stream: false, inputTokens: 1, outputTokens: 1 }
+  ];
+  fs.writeFileSync(process.env.USAGE_LOG_PATH!, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+
+  const [summary] = usage.summarizeUsage({ keyId: 'key_a' }).map(admin.toPublicUsage);
+  assert.equal(summary.requests, 2);
+  assert.equal(summary.input_tokens, 30);
+  assert.equal(summary.last_used_at, '2025-01-02T00:00:00.000Z');
+  assert.equal(summary.cost_usd, 0.00042);
+  assert.deepEqual(summary.by_model.m2, {
+    requests: 1,
+    input_tokens: 20,
+    output_tokens: 7,
+    reasoning_tokens: 3,
+    cached_tokens: 0,
+    cost_usd: 0.00042
+  });
+
+  const recent = usage.summarizeUsage({ since: new Date('2025-01-02T00:00:00.000Z') });
+  assert.deepEqual(recent.map(s => [s.keyId, s.requests]), [['key_a', 1], ['key_b', 1]]);
+});
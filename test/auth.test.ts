@@ -0,0 +1,63 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Point the key store at a scratch file before the modules load
+const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-keys-'));
+process.env.KEY_STORE_PATH = path.join(storeDir, 'keys.json');
+delete process.env.DEV_MODE;
+
+let auth: typeof import('../lib/auth');
+let keyStore: typeof import('../lib/key-store');
+
+before(async () => {
+  auth = await import('../lib/auth');
+  keyStore = await import('../lib/key-store');
+});
+
+after(() => {
+  fs.rmSync(storeDir, { recursive: true, force: true });
+});
+
+test('stores only the hash of created keys', () => {
+  const { record, key } = keyStore.createKey({ name: 'ci', owner: 'platform' });
+
+  const file = fs.readFileSync(process.env.KEY_STORE_PATH!, 'utf8');
+  assert.ok(!file.includes(key));
+  assert.equal(record.keyHash, auth.hashApiKey(key));
+  assert.ok(key.startsWith(record.keyPrefix));
+});
+
+test('validates stored keys and rejects disabled or expired ones', async () => {
+  const { record, key } = keyStore.createKey({ name: 'temp' });
+  assert.equal((await auth.validateApiKey(key))?.id, record.id);
+
+  keyStore.updateKey(record.id, { enabled: false });
+  assert.equal(await auth.validateApiKey(key), null);
+
+  keyStore.updateKey(record.id, { enabled: true, expiresAt: new Date(Date.now() - 1000).toISOString() });
+  assert.equal(await auth.validateApiKey(key), null);
+});
+
+test('rejects the wildcard prefix and test key outside dev mode', async () => {
+  assert.equal(await auth.validateApiKey('test-api-key-123'), null);
+  assert.equal(await auth.validateApiKey('sk-ant-' + 'x'.repeat(40)), null);
+});
+
+test('rotating a key invalidates the old secret', async () => {
+  const { record, key } = keyStore.createKey({ name: 'rotating' });
+  const rotated = keyStore.rotateKey(record.id)!;
+
+  assert.equal(await auth.validateApiKey(key), null);
+  assert.equal((await auth.validateApiKey(rotated.key))?.id, record.id);
+});
+
+test('enforces model allowlists against alias or resolved model', () => {
+  const { record } = keyStore.createKey({ name: 'limited', allowedModels: ['claude-haiku-*', 'openai/*'] });
+
+  assert.equal(auth.isModelAllowed(record, 'claude-haiku-4', 'google/gemini-2.5-flash'), true);
+  assert.equal(auth.isModelAllowed(record, 'gpt', 'openai/gpt-4o'), true);
+  assert.equal(auth.isModelAllowed(record, 'claude-opus-4', 'anthropic/claude-opus-4'), false);
+});
@@ -0,0 +1,175 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { batchError, BatchItemProcessor, BatchQueue, BatchRequestItem, InvalidBatchError, parseBatchRequests, processBatchItem } from '../lib/batches';
+import { ApiKeyRecord } from '../lib/key-store';
+import { recordTokenUsage } from '../lib/rate-limit';
+
+const tempDirs: string[] = [];
+
+after(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-batches-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const key: ApiKeyRecord = {
+  id: 'key_batch',
+  name: 'batch test',
+  keyHash: 'hash',
+  keyPrefix: 'sk-ar-test',
+  createdAt: new Date(0).toISOString(),
+  enabled: true
+};
+
+function items(count: number): BatchRequestItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    custom_id: `item-${i}`,
+    params: { model: 'vendor/model', max_tokens: 10, messages: [{ role: 'user', content: `Prompt ${i}` }] }
+  }));
+}
+
+function succeeded(item: BatchRequestItem) {
+  return {
+    type: 'succeeded' as const,
+    message: {
+      id: `msg_${item.custom_id}`,
+      type: 'message' as const,
+      role: 'assistant' as const,
+      content: [{ type: 'text' as const, text: 'ok' }],
+      model: item.params.model,
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 1 }
+    }
+  };
+}
+
+function readResults(queue: BatchQueue, id: string) {
+  return fs.readFileSync(queue.resultsPath(id), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+test('validates custom ids and params', () => {
+  assert.throws(() => parseBatchRequests({ requests: [] }), InvalidBatchError);
+  assert.throws(() => parseBatchRequests({ requests: [{ custom_id: 'bad id!', params: items(1)[0].params }] }), /requests\.0\.custom_id/);
+  assert.throws(() => parseBatchRequests({ requests: [...items(1), ...items(1)] }), /duplicate custom_id item-0/);
+  assert.throws(() => parseBatchRequests({ requests: [{ custom_id: 'a', params: { model: 'm' } }] }), /requests\.0\.params/);
+  assert.throws(() => parseBatchRequests({ requests: [{ custom_id: 'a', params: { ...items(1)[0].params, stream: true } }] }), /stream/);
+  assert.equal(parseBatchRequests({ requests: items(3) }).length, 3);
+});
+
+test('runs items with bounded concurrency and records per-item errors', async () => {
+  let running = 0;
+  let maxRunning = 0;
+  const processItem: BatchItemProcessor = async item => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    running--;
+    if (item.custom_id === 'item-3') {
+      throw new Error('boom');
+    }
+    if (item.custom_id === 'item-4') {
+      return batchError('api_error', 'Upstream said no');
+    }
+    return succeeded(item);
+  };
+  const queue = new BatchQueue({ dir: tempDir(), concurrency: 2, processItem });
+
+  const batch = queue.create(key, items(6));
+  await queue.whenIdle();
+
+  assert.equal(maxRunning, 2);
+  const state = queue.get(batch.id)!;
+  assert.ok(state.batch.endedAt);
+  assert.deepEqual(state.counts, { processing: 0, succeeded: 4, errored: 2, canceled: 0, expired: 0 });
+
+  const results = readResults(queue, batch.id);
+  assert.equal(results.length, 6);
+  assert.deepEqual(results.find(result => result.custom_id === 'item-4').result, {
+    type: 'errored',
+    error: { type: 'error', error: { type: 'api_error', message: 'Upstream said no' } }
+  });
+  assert.equal(results.find(result => result.custom_id === 'item-3').result.error.error.type, 'api_error');
+});
+
+test('cancels queued items and lets running ones finish', async () => {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => (release = resolve));
+  const queue = new BatchQueue({
+    dir: tempDir(),
+    concurrency: 1,
+    processItem: async item => {
+      await gate;
+      return succeeded(item);
+    }
+  });
+
+  const batch = queue.create(key, items(3));
+  const canceling = queue.cancel(batch.id)!;
+  assert.ok(canceling.batch.cancelInitiatedAt);
+  assert.equal(canceling.batch.endedAt, null);
+
+  release();
+  await queue.whenIdle();
+  assert.ok(canceling.batch.endedAt);
+  assert.deepEqual(canceling.counts, { processing: 0, succeeded: 1, errored: 0, canceled: 2, expired: 0 });
+});
+
+test('resumes unfinished items after a restart', async () => {
+  const dir = tempDir();
+  const first = new BatchQueue({
+    dir,
+    concurrency: 1,
+    // Never settles, like a proxy stopped mid-batch
+    processItem: item => (item.custom_id === 'item-0' ? Promise.resolve(succeeded(item)) : new Promise(() => {}))
+  });
+  const batch = first.create(key, items(3));
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  const processed: string[] = [];
+  const second = new BatchQueue({
+    dir,
+    concurrency: 2,
+    processItem: async item => {
+      processed.push(item.custom_id);
+      return succeeded(item);
+    }
+  });
+  second.load();
+  await second.whenIdle();
+
+  assert.deepEqual(processed.sort(), ['item-1', 'item-2']);
+  const state = second.get(batch.id)!;
+  assert.ok(state.batch.endedAt);
+  assert.equal(state.counts.succeeded, 3);
+  assert.equal(readResults(second, batch.id).length, 3);
+});
+
+test('lists a key\'s batches newest first', () => {
+  const queue = new BatchQueue({ dir: tempDir(), concurrency: 1, processItem: () => new Promise(() => {}) });
+  const older = queue.create(key, items(1));
+  const newer = queue.create(key, items(1));
+  queue.create({ ...key, id: 'key_other' }, items(1));
+
+  assert.deepEqual(queue.list(key.id).map(state => state.batch.id), [newer.id, older.id]);
+});
+
+test('errors items for a key whose token quota is used up', async () => {
+  const limited: ApiKeyRecord = { ...key, id: 'key_quota', keyHash: 'hash_quota', rateLimits: { dailyTokens: 100 } };
+  recordTokenUsage(limited, 0, { inputTokens: 80, outputTokens: 20 });
+
+  const result = await processBatchItem(items(1)[0], limited);
+
+  assert.equal(result.type, 'errored');
+  assert.equal(result.type === 'errored' && result.error.error.type, 'rate_limit_error');
+  assert.match(JSON.stringify(result), /Daily token quota of 100 exceeded/);
+});
@@ -0,0 +1,541 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import Anthropic from '@anthropic-ai/sdk';
+import { errorReply, MockUpstream, streamReply, completionChunks } from './mock-upstream';
+
+// The proxy reads its configuration at import, so point everything at
+// scratch state and the mock before server.ts loads
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-e2e-'));
+process.env.DATA_DIR = dataDir;
+process.env.ROUTES_CONFIG = path.join(dataDir, 'routes.json');
+process.env.KEY_STORE_PATH = path.join(dataDir, 'keys.json');
+process.env.USAGE_LOG_PATH = path.join(dataDir, 'usage.jsonl');
+process.env.MODELS_CACHE_PATH = path.join(dataDir, 'models.json');
+process.env.VALID_API_KEYS = 'e2e-key';
+process.env.REQUEST_LOG = 'false';
+process.env.UPSTREAM_MAX_RETRIES = '1';
+process.env.RESPONSE_CACHE = 'true';
+delete process.env.DEV_MODE;
+delete process.env.FIXTURE_MODE;
+// Keep cost lookups off the network
+fs.writeFileSync(process.env.MODELS_CACHE_PATH, JSON.stringify({ fetchedAt: Date.now(), models: [] }));
+
+const MODEL = 'vendor/test-model';
+const upstream = new MockUpstream();
+let server: http.Server;
+let client: Anthropic;
+
+before(async () => {
+  await upstream.start();
+  process.env.OPENROUTER_BASE_URL = upstream.url;
+
+  const { app } = await import('../server');
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  client = new Anthropic({ apiKey: 'e2e-key', baseURL: `http://127.0.0.1:${port}`, maxRetries: 0 });
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await upstream.stop();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  upstream.reset();
+});
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  input_schema: {
+    type: 'object' as const,
+    properties: { city: { type: 'string' } },
+    required: ['city']
+  }
+};
+
+type StreamParams = Omit<Anthropic.MessageCreateParamsNonStreaming, 'model' | 'max_tokens'> & { max_tokens?: number };
+
+function streamMessage(params: StreamParams) {
+  return client.messages.stream({ model: MODEL, max_tokens: 256, ...params });
+}
+
+async function collectStream(params: StreamParams) {
+  const stream = streamMessage(params);
+  const events: string[] = [];
+  for await (const event of stream) {
+    events.push(event.type);
+  }
+  return { events, message: await stream.finalMessage() };
+}
+
+test('returns a text completion', async () => {
+  upstream.enqueue({ text: 'Hello from the mock', usage: { prompt_tokens: 21, completion_tokens: 4 } });
+
+  const message = await client.messages.create({
+    model: MODEL,
+    max_tokens: 256,
+    system: 'Be brief.',
+    messages: [{ role: 'user', content: 'Say hello' }]
+  });
+
+  assert.deepEqual(message, {
+    id: 'gen-mock-1',
+    type: 'message',
+    role: 'assistant',
+    model: MODEL,
+    content: [{ type: 'text', text: 'Hello from the mock' }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 21, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 4 }
+  });
+  assert.deepEqual(upstream.requests[0].messages, [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Say hello' }
+  ]);
+  assert.equal(upstream.requests[0].max_tokens, 256);
+});
+
+test('streams a text completion as the full Anthropic event sequence', async () => {
+  upstream.enqueue({ text: 'Hello from the mock', usage: { prompt_tokens: 21, completion_tokens: 4 } });
+
+  const { events, message } = await collectStream({ messages: [{ role: 'user', content: 'Say hello' }] });
+
+  assert.deepEqual(events, [
+    'message_start',
+    'content_block_start',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_stop',
+    'message_delta',
+    'message_stop'
+  ]);
+  // The SDK's accumulator adds its own fields, so compare the ones the proxy sends
+  const { id, type, role, model, content, stop_reason, stop_sequence, usage } = message;
+  assert.deepEqual({ id, type, role, model, content, stop_reason, stop_sequence, usage }, {
+    id: 'gen-mock-1',
+    type: 'message',
+    role: 'assistant',
+    model: MODEL,
+    content: [{ type: 'text', text: 'Hello from the mock' }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 21, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 4 }
+  });
+  assert.deepEqual(upstream.requests[0].stream_options, { include_usage: true });
+});
+
+const toolCall = { id: 'call_abc', name: 'get_weather', arguments: '{"city":"Paris, France"}' };
+
+test('returns tool calls as tool_use blocks', async () => {
+  upstream.enqueue({ text: 'Let me check.', toolCalls: [toolCall] });
+
+  const message = await client.messages.create({
+    model: MODEL,
+    max_tokens: 256,
+    tools: [weatherTool],
+    tool_choice: { type: 'tool', name: 'get_weather' },
+    messages: [{ role: 'user', content: 'Weather in Paris?' }]
+  });
+
+  assert.deepEqual(message.content, [
+    { type: 'text', text: 'Let me check.' },
+    { type: 'tool_use', id: 'call_abc', name: 'get_weather', input: { city: 'Paris, France' } }
+  ]);
+  assert.equal(message.stop_reason, 'tool_use');
+  assert.deepEqual(upstream.requests[0].tools, [{
+    type: 'function',
+    function: { name: 'get_weather', description: 'Current weather for a city', parameters: weatherTool.input_schema }
+  }]);
+  assert.deepEqual(upstream.requests[0].tool_choice, { type: 'function', function: { name: 'get_weather' } });
+});
+
+test('streams tool call arguments as input_json_delta', async () => {
+  upstream.enqueue({ toolCalls: [toolCall, { id: 'call_def', name: 'get_weather', arguments: '{"city":"Oslo"}' }] });
+
+  const { message } = await collectStream({
+    tools: [weatherTool],
+    messages: [{ role: 'user', content: 'Weather in Paris and Oslo?' }]
+  });
+
+  assert.deepEqual(message.content, [
+    { type: 'tool_use', id: 'call_abc', name: 'get_weather', input: { city: 'Paris, France' } },
+    { type: 'tool_use', id: 'call_def', name: 'get_weather', input: { city: 'Oslo' } }
+  ]);
+  assert.equal(message.stop_reason, 'tool_use');
+});
+
+test('sends tool results back as tool messages', async () => {
+  upstream.enqueue({ text: 'It is sunny in Paris.' });
+
+  const message = await client.messages.create({
+    model: MODEL,
+    max_tokens: 256,
+    tools: [weatherTool],
+    messages: [
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_abc', name: 'get_weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_abc', content: 'Sunny, 24°C' }] }
+    ]
+  });
+
+  assert.deepEqual(message.content, [{ type: 'text', text: 'It is sunny in Paris.' }]);
+  assert.deepEqual(upstream.requests[0].messages.slice(1), [
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+    },
+    { role: 'tool', tool_call_id: 'call_abc', content: 'Sunny, 24°C' }
+  ]);
+});
+
+test('returns reasoning as signed thinking blocks', async () => {
+  const reply = { reasoning: 'The user wants a number.', reasoningSignature: 'sig-123', text: '42' };
+  upstream.enqueue(reply, reply);
+  const params = {
+    max_tokens: 4096,
+    thinking: { type: 'enabled' as const, budget_tokens: 2048 },
+    messages: [{ role: 'user' as const, content: 'Pick a number' }]
+  };
+
+  const message = await client.messages.create({ model: MODEL, ...params });
+  assert.deepEqual(message.content, [
+    { type: 'thinking', thinking: 'The user wants a number.', signature: 'sig-123' },
+    { type: 'text', text: '42' }
+  ]);
+  assert.deepEqual(upstream.requests[0].reasoning, { max_tokens: 2048 });
+
+  const { message: streamed } = await collectStream(params);
+  assert.deepEqual(streamed.content, message.content);
+});
+
+test('produces the same message from SSE split into tiny pieces', async () => {
+  const spec = { reasoning: 'Thinking it over.', text: 'Ünïcödé ✓ output', toolCalls: [toolCall] };
+  upstream.enqueue(request => streamReply(completionChunks(spec, request.model)));
+  const { message: whole } = await collectStream({ messages: [{ role: 'user', content: 'Go' }] });
+
+  for (const splitBytes of [1, 3, 7]) {
+    upstream.enqueue(request => streamReply(completionChunks(spec, request.model), splitBytes));
+    const { message: split } = await collectStream({ messages: [{ role: 'user', content: 'Go' }] });
+    assert.deepEqual(split, whole, `split into ${splitBytes}-byte pieces`);
+  }
+  assert.equal(whole.content.length, 3);
+});
+
+test('skips malformed SSE chunks and passes keepalive comments', async () => {
+  upstream.enqueue(request => {
+    const [first, ...rest] = completionChunks({ text: 'Still works' }, request.model);
+    return streamReply([': OPENROUTER PROCESSING\n\n', first, 'data: {"choices": [oops\n\n', ...rest]);
+  });
+
+  const { message } = await collectStream({ messages: [{ role: 'user', content: 'Go' }] });
+
+  assert.deepEqual(message.content, [{ type: 'text', text: 'Still works' }]);
+  assert.equal(message.stop_reason, 'end_turn');
+});
+
+test('retries a 429 from the upstream', async () => {
+  upstream.enqueue(errorReply(429, 'Slow down', { 'retry-after': '0' }), { text: 'Recovered' });
+
+  const message = await client.messages.create({
+    model: MODEL,
+    max_tokens: 256,
+    messages: [{ role: 'user', content: 'Hi' }]
+  });
+
+  assert.deepEqual(message.content, [{ type: 'text', text: 'Recovered' }]);
+  assert.equal(upstream.requests.length, 2);
+});
+
+test('surfaces upstream errors as Anthropic API errors', async () => {
+  upstream.enqueue(errorReply(400, 'max_tokens is too large'));
+
+  await assert.rejects(
+    client.messages.create({ model: MODEL, max_tokens: 256, messages: [{ role: 'user', content: 'Hi' }] }),
+    (error: any) => {
+      assert.ok(error instanceof Anthropic.BadRequestError);
+      assert.equal(error.status, 400);
+      assert.deepEqual(error.error, { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens is too large' } });
+      return true;
+    }
+  );
+});
+
+test('reports unavailable providers as overloaded', async () => {
+  const html = { status: 503, headers: { 'content-type': 'text/html' }, body: '<html><h1>503 Service Unavailable</h1></html>' };
+  upstream.enqueue(html, html);
+
+  await assert.rejects(
+    client.messages.create({ model: MODEL, max_tokens: 256, messages: [{ role: 'user', content: 'Hi' }] }),
+    (error: any) => {
+      assert.equal(error.status, 529);
+      assert.equal(error.error.error.type, 'overloaded_error');
+      assert.match(error.error.error.message, /HTTP 503/);
+      return true;
+    }
+  );
+});
+
+test('reports an unreachable upstream as an api_error', async () => {
+  // Nothing listens on port 1, so every attempt fails to connect
+  process.env.OPENROUTER_BASE_URL = 'http://127.0.0.1:1/v1';
+  try {
+    await assert.rejects(
+      client.messages.create({ model: MODEL, max_tokens: 256, messages: [{ role: 'user', content: 'Hi' }] }),
+      (error: any) => {
+        assert.ok(error instanceof Anthropic.InternalServerError);
+        assert.deepEqual(error.error, { type: 'error', error: { type: 'api_error', message: 'Could not reach the upstream API' } });
+        return true;
+      }
+    );
+  } finally {
+    process.env.OPENROUTER_BASE_URL = upstream.url;
+  }
+});
+
+test('reports failed completions sent with a 200 as errors and never caches them', async () => {
+  const failed = {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      id: 'gen-mock-1',
+      choices: [{ index: 0, message: { role: 'assistant', content: '' }, finish_reason: 'error', error: { code: 502, message: 'Provider disconnected' } }]
+    })
+  };
+  upstream.enqueue(failed, failed);
+  const params = { model: MODEL, max_tokens: 256, temperature: 0, messages: [{ role: 'user' as const, content: 'Fails quietly' }] };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    await assert.rejects(client.messages.create(params), (error: any) => {
+      assert.equal(error.status, 500);
+      assert.deepEqual(error.error, { type: 'error', error: { type: 'api_error', message: 'Provider disconnected' } });
+      return true;
+    });
+  }
+  assert.equal(upstream.requests.length, 2);
+});
+
+test('delivers mid-stream upstream errors as an error event', async () => {
+  upstream.enqueue(request => {
+    const [first] = completionChunks({ text: 'Partial answer' }, request.model);
+    return streamReply([first, { id: 'gen-mock-1', error: { code: 'server_error', message: 'Provider disconnected' }, choices: [] }]);
+  });
+
+  await assert.rejects(collectStream({ messages: [{ role: 'user', content: 'Go' }] }), (error: any) => {
+    assert.ok(error instanceof Anthropic.APIError);
+    assert.deepEqual(error.error, { type: 'error', error: { type: 'api_error', message: 'Provider disconnected' } });
+    return true;
+  });
+});
+
+test('rejects malformed requests before calling the upstream', async () => {
+  await assert.rejects(
+    client.messages.create({
+      model: MODEL,
+      max_tokens: 256,
+      messages: [{ role: 'user', content: 'Hi' }, { role: 'user', content: 'Again' }]
+    }),
+    (error: any) => {
+      assert.ok(error instanceof Anthropic.BadRequestError);
+      assert.deepEqual(error.error, {
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          message: 'messages.1.role: roles must alternate between "user" and "assistant", but found multiple "user" roles in a row'
+        }
+      });
+      return true;
+    }
+  );
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('answers bodies that are not JSON with an invalid_request_error', async () => {
+  const response = await fetch(`${client.baseURL}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-api-key': 'e2e-key' },
+    body: '{"model": '
+  });
+
+  assert.equal(response.status, 400);
+  const body = await response.json() as any;
+  assert.equal(body.type, 'error');
+  assert.equal(body.error.type, 'invalid_request_error');
+  assert.match(body.error.message, /^Request body is not valid JSON/);
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('rejects unknown API keys', async () => {
+  const stranger = new Anthropic({ apiKey: 'wrong-key', baseURL: client.baseURL, maxRetries: 0 });
+
+  await assert.rejects(
+    stranger.messages.create({ model: MODEL, max_tokens: 256, messages: [{ role: 'user', content: 'Hi' }] }),
+    Anthropic.AuthenticationError
+  );
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('counts tokens without calling the upstream', async () => {
+  const result = await client.messages.countTokens({
+    model: MODEL,
+    messages: [{ role: 'user', content: 'How many tokens is this?' }]
+  });
+
+  assert.ok(result.input_tokens > 0);
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('answers repeated temperature 0 requests from the response cache', async () => {
+  upstream.enqueue({ text: 'Cached answer', usage: { prompt_tokens: 9, completion_tokens: 2 } });
+  const params = { model: MODEL, max_tokens: 256, temperature: 0, messages: [{ role: 'user' as const, content: 'Same prompt' }] };
+
+  const first = await client.messages.create(params).withResponse();
+  assert.equal(first.response.headers.get('x-anthrorouter-cache'), 'miss');
+
+  // A streaming request for the same prompt replays the stored message
+  const { data: stream, response } = await client.messages.create({ ...params, stream: true }).withResponse();
+  const events: string[] = [];
+  let text = '';
+  for await (const event of stream) {
+    events.push(event.type);
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      text += event.delta.text;
+    }
+  }
+  assert.equal(response.headers.get('x-anthrorouter-cache'), 'hit');
+  assert.deepEqual(events, ['message_start', 'content_block_start', 'content_block_delta', 'content_block_stop', 'message_delta', 'message_stop']);
+  assert.equal(text, 'Cached answer');
+  assert.equal(upstream.requests.length, 1);
+
+  upstream.enqueue({ text: 'Fresh answer' });
+  const bypassed = await client.messages.create(params, { headers: { 'x-anthrorouter-cache': 'off' } }).withResponse();
+  assert.equal(bypassed.response.headers.get('x-anthrorouter-cache'), 'bypass');
+  assert.deepEqual(bypassed.data.content, [{ type: 'text', text: 'Fresh answer' }]);
+  assert.equal(upstream.requests.length, 2);
+});
+
+async function chatCompletion(body: object, headers: Record<string, string> = {}) {
+  return fetch(`${client.baseURL}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: 'Bearer e2e-key', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+test('serves OpenAI chat completions through the same pipeline', async () => {
+  upstream.enqueue({ text: 'Hi there', usage: { prompt_tokens: 8, completion_tokens: 2 } });
+
+  const response = await chatCompletion({
+    model: MODEL,
+    max_tokens: 64,
+    messages: [{ role: 'developer', content: 'Be brief.' }, { role: 'user', content: 'Hi' }]
+  });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('x-anthroRouter-upstream-model'), MODEL);
+  assert.ok(response.headers.get('anthropic-ratelimit-requests-remaining'));
+  const completion: any = await response.json();
+  assert.equal(completion.choices[0].message.content, 'Hi there');
+  assert.deepEqual(completion.usage, { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 });
+  assert.deepEqual(upstream.requests[0].messages[0], { role: 'system', content: 'Be brief.' });
+});
+
+test('streams OpenAI chat completion chunks', async () => {
+  upstream.enqueue({ text: 'Streamed reply', toolCalls: [toolCall] });
+
+  const response = await chatCompletion({
+    model: MODEL,
+    stream: true,
+    stream_options: { include_usage: true },
+    messages: [{ role: 'user', content: 'Hi' }]
+  });
+
+  assert.equal(response.headers.get('content-type'), 'text/event-stream');
+  const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''));
+  assert.equal(events.at(-1), '[DONE]');
+  const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+  const text = chunks.map(chunk => chunk.choices[0]?.delta.content ?? '').join('');
+  assert.equal(text, 'Streamed reply');
+  assert.equal(chunks.find(chunk => chunk.choices[0]?.finish_reason)?.choices[0].finish_reason, 'tool_calls');
+  assert.deepEqual(chunks.at(-1).usage, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+});
+
+test('rejects chat completions without messages in the OpenAI error format', async () => {
+  const response = await chatCompletion({ model: MODEL });
+
+  assert.equal(response.status, 400);
+  assert.deepEqual(await response.json(), {
+    error: { message: "Missing required parameter: 'messages'.", type: 'invalid_request_error', param: 'messages', code: null }
+  });
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('authenticates chat completions like messages', async () => {
+  const response = await chatCompletion({ model: MODEL, messages: [{ role: 'user', content: 'Hi' }] }, { authorization: 'Bearer wrong-key' });
+
+  assert.equal(response.status, 401);
+  assert.deepEqual(await response.json(), {
+    error: { message: 'Invalid API key', type: 'invalid_request_error', param: null, code: 'invalid_api_key' }
+  });
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('relays upstream failures to chat completions clients in OpenAI\'s format', async () => {
+  const unavailable = errorReply(503, 'No provider available');
+  upstream.enqueue(unavailable, unavailable);
+
+  const response = await chatCompletion({ model: MODEL, messages: [{ role: 'user', content: 'Hi' }] });
+
+  assert.equal(response.status, 503);
+  assert.deepEqual(await response.json(), {
+    error: { message: 'No provider available', type: 'server_error', param: null, code: 'overloaded' }
+  });
+});
+
+test('runs message batches and serves their results', async () => {
+  // Items run concurrently, so answer by prompt rather than arrival order
+  const reply = (request: any) =>
+    request.messages[0].content === 'One' ? { text: 'First answer' } : errorReply(400, 'Prompt is too long');
+  upstream.enqueue(reply, reply);
+  const { batchQueue } = await import('../lib/batches');
+
+  const created = await client.messages.batches.create({
+    requests: [
+      { custom_id: 'first', params: { model: MODEL, max_tokens: 64, messages: [{ role: 'user', content: 'One' }] } },
+      { custom_id: 'second', params: { model: MODEL, max_tokens: 64, messages: [{ role: 'user', content: 'Two' }] } }
+    ]
+  });
+  assert.equal(created.type, 'message_batch');
+  assert.match(created.id, /^msgbatch_/);
+
+  await batchQueue.whenIdle();
+  const batch = await client.messages.batches.retrieve(created.id);
+  assert.equal(batch.processing_status, 'ended');
+  assert.deepEqual(batch.request_counts, { processing: 0, succeeded: 1, errored: 1, canceled: 0, expired: 0 });
+
+  const results: Record<string, any> = {};
+  for await (const entry of await client.messages.batches.results(created.id)) {
+    results[entry.custom_id] = entry.result;
+  }
+  assert.equal(results.first.type, 'succeeded');
+  assert.deepEqual(results.first.message.content, [{ type: 'text', text: 'First answer' }]);
+  assert.deepEqual(results.second, {
+    type: 'errored',
+    error: { type: 'error', error: { type: 'invalid_request_error', message: 'Prompt is too long' } }
+  });
+
+  const page = await client.messages.batches.list();
+  assert.deepEqual(page.data.map(listed => listed.id), [created.id]);
+});
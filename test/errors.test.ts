@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anthropicErrors, errorTypeForStatus, openAIErrors, translateCompletionError, translateUpstreamError } from '../lib/errors';
+
+function upstream(status: number, body: string, headers: Record<string, string> = {}, statusText?: string): globalThis.Response {
+  return new Response(body, { status, statusText, headers });
+}
+
+test('maps upstream statuses to Anthropic error types', () => {
+  assert.equal(errorTypeForStatus(400), 'invalid_request_error');
+  assert.equal(errorTypeForStatus(422), 'invalid_request_error');
+  assert.equal(errorTypeForStatus(401), 'authentication_error');
+  assert.equal(errorTypeForStatus(402), 'billing_error');
+  assert.equal(errorTypeForStatus(403), 'permission_error');
+  assert.equal(errorTypeForStatus(404), 'not_found_error');
+  assert.equal(errorTypeForStatus(408), 'api_error');
+  assert.equal(errorTypeForStatus(413), 'request_too_large');
+  assert.equal(errorTypeForStatus(429), 'rate_limit_error');
+  assert.equal(errorTypeForStatus(502), 'api_error');
+  assert.equal(errorTypeForStatus(503), 'overloaded_error');
+});
+
+test('keeps the upstream message and provider metadata', async () => {
+  const metadata = { provider_name: 'Anthropic', raw: '{"type":"error","error":{"type":"overloaded_error"}}' };
+  const error = await translateUpstreamError(upstream(503, JSON.stringify({ error: { code: 503, message: 'Provider returned error', metadata } })));
+
+  assert.deepEqual(error, {
+    status: 529,
+    body: { type: 'error', error: { type: 'overloaded_error', message: 'Provider returned error', metadata } },
+    retryAfter: null
+  });
+});
+
+test('describes non-JSON error pages by their status', async () => {
+  const error = await translateUpstreamError(upstream(502, '<html><body>Bad Gateway</body></html>', { 'content-type': 'text/html' }, 'Bad Gateway'));
+
+  assert.equal(error.status, 500);
+  assert.deepEqual(error.body.error, { type: 'api_error', message: 'Upstream returned HTTP 502 Bad Gateway' });
+});
+
+test('forwards Retry-After with rate limit errors', async () => {
+  const error = await translateUpstreamError(upstream(429, JSON.stringify({ error: 'Slow down' }), { 'retry-after': '7' }));
+
+  assert.equal(error.status, 429);
+  assert.deepEqual(error.body.error, { type: 'rate_limit_error', message: 'Slow down' });
+  assert.equal(error.retryAfter, '7');
+});
+
+test('finds errors reported inside a 200 completion', () => {
+  const choice = { index: 0, message: { role: 'assistant', content: '' }, finish_reason: 'error', error: { code: 502, message: 'Provider disconnected' } };
+  assert.deepEqual(translateCompletionError({ id: 'gen-1', choices: [choice] }), {
+    status: 500,
+    body: { type: 'error', error: { type: 'api_error', message: 'Provider disconnected' } },
+    retryAfter: null
+  });
+  assert.equal(translateCompletionError({ error: { code: 429, message: 'Slow down' } })!.body.error.type, 'rate_limit_error');
+  assert.equal(translateCompletionError({ id: 'gen-1' })!.body.error.message, 'Upstream returned no completion');
+  assert.equal(translateCompletionError({ id: 'gen-1', choices: [{ ...choice, finish_reason: 'stop', error: undefined }] }), null);
+});
+
+test('formats errors for each client API', () => {
+  assert.deepEqual(anthropicErrors('overloaded_error', 'Busy'), {
+    status: 529,
+    body: { type: 'error', error: { type: 'overloaded_error', message: 'Busy' } }
+  });
+  assert.deepEqual(openAIErrors('overloaded_error', 'Busy'), {
+    status: 503,
+    body: { error: { message: 'Busy', type: 'server_error', param: null, code: 'overloaded' } }
+  });
+  assert.deepEqual(openAIErrors('invalid_request_error', 'Bad model', { param: 'model' }).body, {
+    error: { message: 'Bad model', type: 'invalid_request_error', param: 'model', code: null }
+  });
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { OpenRouterRequest } from '../lib/request-handler';
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-fixtures-'));
+process.env.FIXTURES_DIR = fixturesDir;
+
+let fixtures: typeof import('../lib/fixtures');
+
+before(async () => {
+  fixtures = await import('../lib/fixtures');
+});
+
+after(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+const request: OpenRouterRequest = {
+  model: 'vendor/model',
+  messages: [{ role: 'user', content: 'Hi' }],
+  max_tokens: 100,
+  temperature: 0.2,
+  stream: true
+};
+
+function streamOf(pieces: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(piece));
+      controller.close();
+    }
+  });
+}
+
+async function readAll(response: globalThis.Response): Promise<Uint8Array> {
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+test('matches requests by normalized hash at the configured strictness', () => {
+  const reordered = { stream: true, temperature: 0.9, messages: [{ content: 'Hi', role: 'user' }], model: 'vendor/model' } as OpenRouterRequest;
+
+  assert.equal(fixtures.fixtureKey('openrouter', request, 'normal'), fixtures.fixtureKey('openrouter', reordered, 'normal'));
+  assert.notEqual(fixtures.fixtureKey('openrouter', request, 'strict'), fixtures.fixtureKey('openrouter', reordered, 'strict'));
+  assert.notEqual(fixtures.fixtureKey('openrouter', request, 'strict'), fixtures.fixtureKey('openai', request, 'strict'));
+
+  const otherModel = { ...request, model: 'other/model' };
+  assert.notEqual(fixtures.fixtureKey('openrouter', request, 'normal'), fixtures.fixtureKey('openrouter', otherModel, 'normal'));
+  assert.equal(fixtures.fixtureKey('openrouter', request, 'loose'), fixtures.fixtureKey('openrouter', otherModel, 'loose'));
+
+  const nonStreaming = { ...request, stream: undefined };
+  assert.notEqual(fixtures.fixtureKey('openrouter', request, 'loose'), fixtures.fixtureKey('openrouter', nonStreaming, 'loose'));
+});
+
+test('records raw SSE bytes and replays them unchanged', async () => {
+  // A multi-byte character split across chunks must survive the round trip
+  const bytes = new TextEncoder().encode('data: {"choices":[{"delta":{"content":"héllo"}}]}\n\ndata: [DONE]\n\n');
+  const pieces = [bytes.slice(0, 38), bytes.slice(38, 60), bytes.slice(60)];
+  const upstream = new Response(streamOf(pieces), {
+    status: 200,
+    headers: { 'content-type': 'text/event-stream', 'x-request-id': 'abc' }
+  });
+
+  const recorded = fixtures.recordResponse('openrouter', request, upstream, 120);
+  assert.deepEqual(await readAll(recorded), bytes);
+
+  const [file] = fs.readdirSync(fixturesDir);
+  const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf8'));
+  assert.equal(fixture.key, fixtures.fixtureKey('openrouter', request));
+  assert.equal(fixture.response.latencyMs, 120);
+  assert.equal(fixture.response.chunks.length, 3);
+  assert.deepEqual(fixture.request, request);
+
+  const replayed = await fixtures.replayResponse('openrouter', { ...request, temperature: 1 });
+  assert.equal(replayed.status, 200);
+  assert.equal(replayed.headers.get('content-type'), 'text/event-stream');
+  assert.equal(replayed.headers.get('x-request-id'), 'abc');
+  assert.deepEqual(await readAll(replayed), bytes);
+});
+
+test('does not record a response whose body was cancelled', async () => {
+  const cancelledRequest = { ...request, messages: [{ role: 'user' as const, content: 'Cancelled' }] };
+  const upstream = new Response(streamOf([new TextEncoder().encode('{}')]), { status: 429 });
+
+  await fixtures.recordResponse('openrouter', cancelledRequest, upstream, 5).body!.cancel();
+
+  const missing = await fixtures.replayResponse('openrouter', cancelledRequest);
+  assert.equal(missing.status, 404);
+  assert.match((await missing.json() as any).error.message, /No fixture recorded for this request/);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Counter, Gauge, Histogram, renderMetrics } from '../lib/metrics';
+
+test('renders labelled counters and gauges in Prometheus text format', () => {
+  const counter = new Counter('test_requests_total', 'Test requests.', ['route', 'status']);
+  counter.inc({ route: '/v1/messages', status: '200' });
+  counter.inc({ route: '/v1/messages', status: '200' }, 2);
+  counter.inc({ route: '/v1/models/*', status: '404' });
+
+  const gauge = new Gauge('test_in_flight', 'Test gauge.');
+  gauge.inc();
+  gauge.inc();
+  gauge.dec();
+
+  const output = renderMetrics();
+  assert.ok(output.includes('# HELP test_requests_total Test requests.\n# TYPE test_requests_total counter\n'));
+  assert.ok(output.includes('test_requests_total{route="/v1/messages",status="200"} 3\n'));
+  assert.ok(output.includes('test_requests_total{route="/v1/models/*",status="404"} 1\n'));
+  assert.ok(output.includes('# TYPE test_in_flight gauge\ntest_in_flight 1\n'));
+});
+
+test('renders cumulative histogram buckets with sum and count', () => {
+  const histogram = new Histogram('test_latency_seconds', 'Test latency.', ['model'], [0.5, 0.1, 1]);
+  for (const value of [0.05, 0.3, 0.4, 2]) {
+    histogram.observe({ model: 'claude' }, value);
+  }
+
+  const lines = renderMetrics().split('\n').filter(line => line.startsWith('test_latency_seconds'));
+  assert.deepEqual(lines, [
+    'test_latency_seconds_bucket{model="claude",le="0.1"} 1',
+    'test_latency_seconds_bucket{model="claude",le="0.5"} 3',
+    'test_latency_seconds_bucket{model="claude",le="1"} 3',
+    'test_latency_seconds_bucket{model="claude",le="+Inf"} 4',
+    'test_latency_seconds_sum{model="claude"} 2.75',
+    'test_latency_seconds_count{model="claude"} 4'
+  ]);
+});
+
+test('escapes label values and fills in missing labels', () => {
+  const counter = new Counter('test_escaped_total', 'Test escaping.', ['model', 'provider']);
+  counter.inc({ model: 'say "hi"\\\n' });
+
+  assert.ok(renderMetrics().includes('test_escaped_total{model="say \\"hi\\"\\\\\\n",provider=""} 1\n'));
+});
@@ -0,0 +1,211 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * A scripted OpenAI-compatible upstream for end-to-end tests. Each request
+ * to /v1/chat/completions takes the next reply from the script, answering in
+ * JSON or SSE to match the request's stream flag.
+ */
+
+export interface ToolCallSpec {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface CompletionSpec {
+  text?: string;
+  reasoning?: string;
+  // Signed reasoning_details, as OpenRouter returns them for Anthropic models
+  reasoningSignature?: string;
+  toolCalls?: ToolCallSpec[];
+  finishReason?: string;
+  usage?: { prompt_tokens: number; completion_tokens: number; cost?: number };
+}
+
+export interface RawReply {
+  status: number;
+  headers?: Record<string, string>;
+  body: string;
+  // Write the body in pieces of this many bytes, to exercise split chunks
+  splitBytes?: number;
+}
+
+export type MockReply = CompletionSpec | RawReply | ((request: any) => CompletionSpec | RawReply);
+
+const COMPLETION_ID = 'gen-mock-1';
+
+function isRaw(reply: CompletionSpec | RawReply): reply is RawReply {
+  return 'status' in reply;
+}
+
+function defaultUsage(spec: CompletionSpec) {
+  return spec.usage ?? { prompt_tokens: 10, completion_tokens: 5 };
+}
+
+function withTotal(usage: { prompt_tokens: number; completion_tokens: number; cost?: number }) {
+  return { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens };
+}
+
+function finishReason(spec: CompletionSpec): string {
+  return spec.finishReason ?? (spec.toolCalls?.length ? 'tool_calls' : 'stop');
+}
+
+export function completionJson(spec: CompletionSpec, model: string) {
+  const message: any = { role: 'assistant', content: spec.text ?? null };
+  if (spec.reasoning) {
+    message.reasoning = spec.reasoning;
+    if (spec.reasoningSignature) {
+      message.reasoning_details = [{ type: 'reasoning.text', text: spec.reasoning, signature: spec.reasoningSignature }];
+    }
+  }
+  if (spec.toolCalls?.length) {
+    message.tool_calls = spec.toolCalls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments }
+    }));
+  }
+  return {
+    id: COMPLETION_ID,
+    object: 'chat.completion',
+    created: 1700000000,
+    model,
+    choices: [{ index: 0, message, finish_reason: finishReason(spec) }],
+    usage: withTotal(defaultUsage(spec))
+  };
+}
+
+// Splits text into word-sized pieces so deltas arrive the way real streams send them
+function pieces(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+export function completionChunks(spec: CompletionSpec, model: string): object[] {
+  const chunk = (delta: object, extra: object = {}) => ({
+    id: COMPLETION_ID,
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model,
+    choices: [{ index: 0, delta, finish_reason: null, ...extra }]
+  });
+
+  const chunks: object[] = [chunk({ role: 'assistant', content: '' })];
+  if (spec.reasoning) {
+    for (const piece of pieces(spec.reasoning)) {
+      chunks.push(chunk({ reasoning: piece, reasoning_details: [{ type: 'reasoning.text', text: piece }] }));
+    }
+    if (spec.reasoningSignature) {
+      chunks.push(chunk({ reasoning_details: [{ type: 'reasoning.text', text: '', signature: spec.reasoningSignature }] }));
+    }
+  }
+  for (const piece of pieces(spec.text ?? '')) {
+    chunks.push(chunk({ content: piece }));
+  }
+  spec.toolCalls?.forEach((call, index) => {
+    chunks.push(chunk({ tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.name, arguments: '' } }] }));
+    // Argument fragments deliberately cut through JSON tokens
+    for (let i = 0; i < call.arguments.length; i += 7) {
+      chunks.push(chunk({ tool_calls: [{ index, function: { arguments: call.arguments.slice(i, i + 7) } }] }));
+    }
+  });
+  chunks.push(chunk({}, { finish_reason: finishReason(spec) }));
+  chunks.push({ id: COMPLETION_ID, object: 'chat.completion.chunk', created: 1700000000, model, choices: [], usage: withTotal(defaultUsage(spec)) });
+  return chunks;
+}
+
+export function sseBody(events: Array<object | string>): string {
+  // Strings are sent verbatim, e.g. comments or deliberately malformed lines
+  return events
+    .map(event => (typeof event === 'string' ? event : `data: ${JSON.stringify(event)}\n\n`))
+    .join('') + 'data: [DONE]\n\n';
+}
+
+export function errorReply(status: number, message: string, headers: Record<string, string> = {}): RawReply {
+  return {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({ error: { code: status, message } })
+  };
+}
+
+export function streamReply(events: Array<object | string>, splitBytes?: number): RawReply {
+  return { status: 200, headers: { 'content-type': 'text/event-stream' }, body: sseBody(events), splitBytes };
+}
+
+export class MockUpstream {
+  // Parsed bodies of every request received, in order
+  readonly requests: any[] = [];
+  private script: MockReply[] = [];
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  // Base URL to configure as the provider's baseUrl
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1`;
+  }
+
+  enqueue(...replies: MockReply[]) {
+    this.script.push(...replies);
+  }
+
+  reset() {
+    this.requests.length = 0;
+    this.script = [];
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const request = JSON.parse(body);
+      this.requests.push(request);
+      const next = this.script.shift();
+      if (!next) {
+        this.write(res, errorReply(500, 'Mock upstream script is empty'));
+        return;
+      }
+
+      const reply = typeof next === 'function' ? next(request) : next;
+      if (isRaw(reply)) {
+        await this.write(res, reply);
+      } else if (request.stream) {
+        await this.write(res, streamReply(completionChunks(reply, request.model)));
+      } else {
+        await this.write(res, { status: 200, headers: { 'content-type': 'application/json' }, body: JSON.stringify(completionJson(reply, request.model)) });
+      }
+    });
+  }
+
+  private async write(res: http.ServerResponse, reply: RawReply) {
+    res.writeHead(reply.status, reply.headers);
+    const bytes = Buffer.from(reply.body);
+    const size = reply.splitBytes ?? bytes.length;
+    for (let offset = 0; offset < bytes.length; offset += size) {
+      res.write(bytes.subarray(offset, offset + size));
+      if (reply.splitBytes) {
+        // Yield so the pieces leave as separate TCP writes
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+    res.end();
+  }
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CatalogModel, paginateModels } from '../lib/model-catalog';
+
+const models: CatalogModel[] = ['a', 'b', 'c', 'd', 'e'].map((id, i) => ({
+  id: `vendor/${id}`,
+  name: id.toUpperCase(),
+  created: 1000 - i
+}));
+
+test('lists models newest first in Anthropic format', () => {
+  const page = paginateModels(models, { limit: 2 });
+
+  assert.deepEqual(page.data[0], {
+    type: 'model',
+    id: 'vendor/a',
+    display_name: 'A',
+    created_at: new Date(1000 * 1000).toISOString()
+  });
+  assert.equal(page.has_more, true);
+  assert.equal(page.first_id, 'vendor/a');
+  assert.equal(page.last_id, 'vendor/b');
+});
+
+test('pages forward with after_id and backward with before_id', () => {
+  const next = paginateModels(models, { limit: 2, after_id: 'vendor/b' });
+  assert.deepEqual(next.data.map(m => m.id), ['vendor/c', 'vendor/d']);
+  assert.equal(next.has_more, true);
+
+  const last = paginateModels(models, { limit: 2, after_id: 'vendor/d' });
+  assert.deepEqual(last.data.map(m => m.id), ['vendor/e']);
+  assert.equal(last.has_more, false);
+
+  const previous = paginateModels(models, { limit: 2, before_id: 'vendor/e' });
+  assert.deepEqual(previous.data.map(m => m.id), ['vendor/c', 'vendor/d']);
+  assert.equal(previous.has_more, true);
+});
@@ -0,0 +1,141 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response } from 'express';
+import { checkChatRequest, OpenAIRequestHandler, relayChatStream } from '../lib/openai-handler';
+import { setRoutingConfig } from '../lib/routing';
+
+beforeEach(() => {
+  setRoutingConfig({
+    routes: [{ match: 'fast', model: 'openai/gpt-4o-mini', params: { max_tokens: 1000, temperature: 0 } }]
+  });
+});
+
+test('routes the model and forwards supported fields', () => {
+  const handler = new OpenAIRequestHandler({
+    model: 'fast',
+    messages: [
+      { role: 'developer', content: 'Be brief.' },
+      { role: 'user', content: 'Hi', name: 'alice' }
+    ],
+    max_completion_tokens: 4000,
+    temperature: 0.7,
+    stop: 'END',
+    reasoning_effort: 'minimal',
+    response_format: { type: 'json_object' },
+    seed: 7
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter(), {
+    model: 'openai/gpt-4o-mini',
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' }
+    ],
+    stream: false,
+    usage: { include: true },
+    max_tokens: 1000,
+    temperature: 0,
+    stop: ['END'],
+    reasoning: { effort: 'low' },
+    response_format: { type: 'json_object' },
+    seed: 7
+  });
+  assert.equal(handler.responseModel, 'fast');
+});
+
+test('always asks the upstream for streamed usage', () => {
+  const handler = new OpenAIRequestHandler({
+    model: 'vendor/model',
+    stream: true,
+    messages: [{ role: 'user', content: 'Hi' }]
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter().stream_options, { include_usage: true });
+  assert.equal(handler.includeUsage, false);
+});
+
+function upstreamResponse(text: string): globalThis.Response {
+  return new Response(new TextEncoder().encode(text));
+}
+
+function fakeResponse() {
+  const written: string[] = [];
+  const res = { setHeader() {}, write(data: string) { written.push(data); return true; }, end() {} } as unknown as Response;
+  return { res, written };
+}
+
+const streamText = [
+  { id: 'gen-1', created: 1, model: 'openai/gpt-4o-mini', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' }, finish_reason: null }] },
+  { id: 'gen-1', created: 1, model: 'openai/gpt-4o-mini', choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }] },
+  { id: 'gen-1', created: 1, model: 'openai/gpt-4o-mini', choices: [], usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 } }
+].map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+test('reports the parameter that makes a request unusable', () => {
+  assert.equal(checkChatRequest({ model: 'fast', messages: [{ role: 'user', content: 'Hi' }] }), null);
+  assert.equal(checkChatRequest({ messages: [{ role: 'user', content: 'Hi' }] })?.param, 'model');
+  assert.equal(checkChatRequest({ model: 42, messages: [{ role: 'user', content: 'Hi' }] })?.param, 'model');
+  assert.deepEqual(checkChatRequest({ model: 'fast' }), { param: 'messages', message: "Missing required parameter: 'messages'." });
+  assert.equal(checkChatRequest({ model: 'fast', messages: 'Hi' })?.param, 'messages');
+  assert.equal(checkChatRequest({ model: 'fast', messages: [] })?.param, 'messages');
+  assert.equal(checkChatRequest({ model: 'fast', messages: ['Hi'] })?.param, 'messages[0]');
+});
+
+test('relays chunks with the response model and drops unrequested usage', async () => {
+  const { res, written } = fakeResponse();
+  const result = await relayChatStream(upstreamResponse(streamText), res, { model: 'fast', inputTokens: 99, includeUsage: false });
+
+  const chunks = written.map(line => line.replace(/^data: /, '').trim());
+  assert.equal(chunks.length, 3);
+  assert.equal(chunks[2], '[DONE]');
+  assert.deepEqual(chunks.slice(0, 2).map(chunk => JSON.parse(chunk).model), ['fast', 'fast']);
+  assert.equal(result.usage.inputTokens, 12);
+  assert.equal(result.usage.outputTokens, 2);
+  assert.equal(result.completion.choices[0].message.content, 'Hello');
+  assert.equal(result.completion.choices[0].finish_reason, 'stop');
+});
+
+test('forwards the usage chunk when the client asks for it', async () => {
+  const { res, written } = fakeResponse();
+  await relayChatStream(upstreamResponse(streamText), res, { model: 'fast', inputTokens: 99, includeUsage: true });
+
+  const usageChunk = JSON.parse(written[2].replace(/^data: /, ''));
+  assert.deepEqual(usageChunk.usage, { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 });
+});
+
+test('ends an interrupted stream with an error chunk instead of [DONE]', async () => {
+  let pulls = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulls++ === 0) {
+        controller.enqueue(new TextEncoder().encode(streamText.split('\n\n')[0] + '\n\n'));
+      } else {
+        controller.error(new Error('socket hang up'));
+      }
+    }
+  });
+  const { res, written } = fakeResponse();
+  await relayChatStream(new Response(body), res, { model: 'fast', inputTokens: 99, includeUsage: false });
+
+  const chunks = written.map(line => JSON.parse(line.replace(/^data: /, '')));
+  assert.equal(chunks.length, 2);
+  assert.deepEqual(chunks[1], { error: { message: 'Upstream stream was interrupted', type: 'server_error', param: null, code: null } });
+});
+
+test('accumulates streamed tool calls', async () => {
+  const chunks = [
+    { id: 'gen-2', created: 1, model: 'm', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q"' } }] }, finish_reason: null }] },
+    { id: 'gen-2', created: 1, model: 'm', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: ':"x"}' } }] }, finish_reason: 'tool_calls' }] }
+  ];
+  const { res } = fakeResponse();
+  const result = await relayChatStream(
+    upstreamResponse(chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('')),
+    res,
+    { model: 'm', inputTokens: 30, includeUsage: false }
+  );
+
+  assert.deepEqual(result.completion.choices[0].message.tool_calls, [
+    { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }
+  ]);
+  // Without upstream usage the local estimate is kept
+  assert.equal(result.usage.inputTokens, 30);
+});
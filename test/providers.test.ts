@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createProvider } from '../lib/providers';
+import { OpenRouterRequest } from '../lib/request-handler';
+import { resolveModel, setRoutingConfig } from '../lib/routing';
+
+const request: OpenRouterRequest = {
+  model: 'some-model',
+  max_tokens: 1000,
+  messages: [{
+    role: 'assistant',
+    content: 'Hi',
+    reasoning_details: [{ type: 'reasoning.text', text: 'thought' }]
+  }],
+  tool_choice: 'required',
+  parallel_tool_calls: false,
+  reasoning: { max_tokens: 8000 },
+  usage: { include: true }
+};
+
+test('OpenRouter receives the request unchanged with its attribution headers', () => {
+  const provider = createProvider('openrouter', { type: 'openrouter', apiKey: 'or-key' });
+
+  assert.equal(provider.chatCompletionsUrl(), 'https://openrouter.ai/api/v1/chat/completions');
+  assert.equal(provider.headers()['Authorization'], 'Bearer or-key');
+  assert.ok(provider.headers()['X-Title']);
+  assert.deepEqual(provider.prepareRequest(request), request);
+});
+
+test('OpenAI uses max_completion_tokens and reasoning_effort', () => {
+  const provider = createProvider('openai', { type: 'openai', apiKey: 'sk-test' });
+  const prepared = provider.prepareRequest(request);
+
+  assert.equal(prepared.max_tokens, undefined);
+  assert.equal(prepared.max_completion_tokens, 1000);
+  assert.equal(prepared.reasoning_effort, 'medium');
+  assert.equal(prepared.reasoning, undefined);
+  assert.equal(prepared.usage, undefined);
+  assert.equal(prepared.messages[0].reasoning_details, undefined);
+});
+
+test('compatible providers drop cache breakpoints', () => {
+  const provider = createProvider('local', { type: 'ollama' });
+  const prepared = provider.prepareRequest({
+    model: 'llama3.1:8b',
+    messages: [
+      { role: 'system', content: [{ type: 'text', text: 'Rules', cache_control: { type: 'ephemeral' } }, { type: 'text', text: 'More' }] },
+      { role: 'user', content: [{ type: 'text', text: 'Look', cache_control: { type: 'ephemeral' } }, { type: 'image_url', image_url: { url: 'https://x/y.png' } }] }
+    ]
+  });
+
+  assert.equal(prepared.messages[0].content, 'Rules\nMore');
+  assert.deepEqual(prepared.messages[1].content, [{ type: 'text', text: 'Look' }, { type: 'image_url', image_url: { url: 'https://x/y.png' } }]);
+});
+
+test('Ollama drops tool_choice and needs no auth', () => {
+  const provider = createProvider('local', { type: 'ollama', baseUrl: 'http://gpu-box:11434/v1/' });
+  const prepared = provider.prepareRequest(request);
+
+  assert.equal(provider.chatCompletionsUrl(), 'http://gpu-box:11434/v1/chat/completions');
+  assert.equal(provider.headers()['Authorization'], undefined);
+  assert.equal(prepared.tool_choice, undefined);
+  assert.equal(prepared.parallel_tool_calls, undefined);
+});
+
+test('generic providers support custom auth schemes from the environment', () => {
+  process.env.TEST_UPSTREAM_KEY = 'secret';
+  const provider = createProvider('vllm', {
+    type: 'openai-compatible',
+    baseUrl: 'http://localhost:8000/v1',
+    apiKeyEnv: 'TEST_UPSTREAM_KEY',
+    authScheme: 'x-api-key'
+  });
+
+  assert.equal(provider.headers()['x-api-key'], 'secret');
+  assert.equal(provider.headers()['Authorization'], undefined);
+});
+
+test('routes pick the provider for the model and its fallbacks', () => {
+  setRoutingConfig({
+    providers: { local: { type: 'ollama' } },
+    routes: [{
+      match: 'claude-*',
+      model: 'qwen2.5-coder:32b',
+      provider: 'local',
+      fallbacks: ['llama3.1:8b', { provider: 'openrouter', model: 'anthropic/claude-sonnet-4' }]
+    }]
+  });
+
+  assert.deepEqual(resolveModel('claude-sonnet-4').targets, [
+    { provider: 'local', model: 'qwen2.5-coder:32b' },
+    { provider: 'local', model: 'llama3.1:8b' },
+    { provider: 'openrouter', model: 'anthropic/claude-sonnet-4' }
+  ]);
+  assert.equal(resolveModel('openai/gpt-4o').provider, 'openrouter');
+});
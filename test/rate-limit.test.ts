@@ -0,0 +1,103 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Quotas are seeded from the usage log, so point it at a scratch file
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-ratelimit-'));
+process.env.USAGE_LOG_PATH = path.join(dataDir, 'usage.jsonl');
+
+let rateLimit: typeof import('../lib/rate-limit');
+
+before(async () => {
+  rateLimit = await import('../lib/rate-limit');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+let nextId = 0;
+
+function makeKey(rateLimits: import('../lib/key-store').KeyRateLimits): import('../lib/key-store').ApiKeyRecord {
+  nextId++;
+  return {
+    id: `key_test${nextId}`,
+    name: 'test',
+    keyHash: `hash${nextId}`,
+    keyPrefix: 'sk-ar-test',
+    createdAt: new Date().toISOString(),
+    enabled: true,
+    rateLimits
+  };
+}
+
+test('applies per-key request limits', () => {
+  const record = makeKey({ requestsPerMinute: 2 });
+
+  assert.equal(rateLimit.checkRateLimit(record, 10).allowed, true);
+  const second = rateLimit.checkRateLimit(record, 10);
+  assert.equal(second.allowed, true);
+  assert.equal(second.headers['anthropic-ratelimit-requests-limit'], '2');
+  assert.equal(second.headers['anthropic-ratelimit-requests-remaining'], '0');
+
+  const third = rateLimit.checkRateLimit(record, 10);
+  assert.equal(third.allowed, false);
+  assert.ok(third.retryAfter! >= 1 && third.retryAfter! <= 30);
+  assert.match(third.message!, /2 requests per minute/);
+});
+
+test('limits input tokens by the estimated prompt size', () => {
+  const record = makeKey({ requestsPerMinute: 0, inputTokensPerMinute: 1000 });
+
+  assert.equal(rateLimit.checkRateLimit(record, 800).allowed, true);
+  const rejected = rateLimit.checkRateLimit(record, 400);
+  assert.equal(rejected.allowed, false);
+  assert.match(rejected.message!, /input tokens per minute/);
+  assert.equal(rejected.headers['anthropic-ratelimit-input-tokens-remaining'], '200');
+  assert.equal(rejected.headers['anthropic-ratelimit-tokens-limit'], '1000');
+
+  // Settling a smaller real prompt refunds the difference
+  rateLimit.recordTokenUsage(record, 800, { inputTokens: 500, outputTokens: 0 });
+  assert.equal(rateLimit.checkRateLimit(record, 400).allowed, true);
+});
+
+test('rejects requests once output tokens run out', () => {
+  const record = makeKey({ outputTokensPerMinute: 100 });
+
+  assert.equal(rateLimit.checkRateLimit(record, 10).allowed, true);
+  rateLimit.recordTokenUsage(record, 10, { inputTokens: 10, outputTokens: 150 });
+  const rejected = rateLimit.checkRateLimit(record, 10);
+  assert.equal(rejected.allowed, false);
+  assert.match(rejected.message!, /output tokens per minute/);
+});
+
+test('enforces daily quotas including usage already logged', () => {
+  const record = makeKey({ dailyTokens: 1000 });
+  fs.writeFileSync(process.env.USAGE_LOG_PATH!, JSON.stringify({
+    timestamp: new Date().toISOString(),
+    keyId: record.id,
+    model: 'claude-sonnet-4',
+    provider: 'openrouter',
+    upstreamModel: 'anthropic/claude-sonnet-4',
+    stream: false,
+    inputTokens: 600,
+    outputTokens: 200
+  }) + '\n');
+
+  assert.equal(rateLimit.checkRateLimit(record, 50).allowed, true);
+  rateLimit.recordTokenUsage(record, 50, { inputTokens: 50, outputTokens: 150 });
+
+  const rejected = rateLimit.checkRateLimit(record, 50);
+  assert.equal(rejected.allowed, false);
+  assert.match(rejected.message!, /Daily token quota of 1000 exceeded/);
+  assert.ok(rejected.retryAfter! <= 24 * 60 * 60);
+});
+
+test('falls back to server defaults for unset limits', () => {
+  const limits = rateLimit.effectiveLimits(makeKey({ inputTokensPerMinute: 5000 }));
+  assert.equal(limits.requestsPerMinute, 100);
+  assert.equal(limits.inputTokensPerMinute, 5000);
+  assert.equal(limits.monthlyTokens, 0);
+});
@@ -0,0 +1,228 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnthropicRequestHandler } from '../lib/request-handler';
+
+test('maps tools, tool_use and tool_result to function calling', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'openai/gpt-4o',
+    max_tokens: 100,
+    tools: [{ name: 'lookup', description: 'Look things up', input_schema: { type: 'object' } }],
+    tool_choice: { type: 'tool', name: 'lookup' },
+    messages: [
+      { role: 'user', content: 'Weather?' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'weather' } }
+        ]
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }]
+      }
+    ]
+  });
+
+  const request = handler.transformToOpenRouter();
+
+  assert.deepEqual(request.tools, [{
+    type: 'function',
+    function: { name: 'lookup', description: 'Look things up', parameters: { type: 'object' } }
+  }]);
+  assert.deepEqual(request.tool_choice, { type: 'function', function: { name: 'lookup' } });
+  assert.deepEqual(request.messages.slice(1), [
+    {
+      role: 'assistant',
+      content: 'Checking.',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"weather"}' } }]
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+  ]);
+});
+
+test('maps upstream tool_calls back to tool_use blocks', () => {
+  const handler = new AnthropicRequestHandler({ model: 'openai/gpt-4o', messages: [] });
+
+  const response = handler.transformToAnthropicResponse({
+    id: 'gen-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'openai/gpt-4o',
+    choices: [{
+      index: 0,
+      finish_reason: 'tool_calls',
+      message: {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"q":"news"}' } }]
+      }
+    }]
+  });
+
+  assert.deepEqual(response.content, [{ type: 'tool_use', id: 'call_2', name: 'lookup', input: { q: 'news' } }]);
+  assert.equal(response.stop_reason, 'tool_use');
+});
+
+test('forwards image and document blocks as multimodal parts', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'google/gemini-2.5-flash',
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Describe these' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0' } },
+        { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } },
+        { type: 'document', title: 'report.pdf', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0' } }
+      ]
+    }]
+  });
+
+  const [message] = handler.transformToOpenRouter().messages;
+
+  assert.deepEqual(message.content, [
+    { type: 'text', text: 'Describe these' },
+    { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0' } },
+    { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+    { type: 'file', file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0' } }
+  ]);
+});
+
+test('keeps text-only content as a plain string', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'google/gemini-2.5-flash',
+    messages: [{ role: 'user', content: [{ type: 'text', text: 'one' }, { type: 'text', text: 'two' }] }]
+  });
+
+  assert.equal(handler.transformToOpenRouter().messages[0].content, 'one\ntwo');
+});
+
+test('maps thinking config to reasoning and returns thinking blocks', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'anthropic/claude-sonnet-4',
+    max_tokens: 4000,
+    thinking: { type: 'enabled', budget_tokens: 2000 },
+    messages: [{ role: 'user', content: 'Think first' }]
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter().reasoning, { max_tokens: 2000 });
+
+  const response = handler.transformToAnthropicResponse({
+    id: 'gen-2',
+    object: 'chat.completion',
+    created: 0,
+    model: 'anthropic/claude-sonnet-4',
+    choices: [{
+      index: 0,
+      finish_reason: 'stop',
+      message: {
+        role: 'assistant',
+        content: 'Answer',
+        reasoning: 'Hmm',
+        reasoning_details: [
+          { type: 'reasoning.text', text: 'Hmm', signature: 'sig-1' },
+          { type: 'reasoning.encrypted', data: 'opaque' }
+        ]
+      }
+    }]
+  });
+
+  assert.deepEqual(response.content, [
+    { type: 'thinking', thinking: 'Hmm', signature: 'sig-1' },
+    { type: 'redacted_thinking', data: 'opaque' },
+    { type: 'text', text: 'Answer' }
+  ]);
+});
+
+test('round-trips prior-turn thinking blocks as reasoning_details', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'anthropic/claude-sonnet-4',
+    messages: [
+      { role: 'user', content: 'Hi' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'Greeting', signature: 'sig-2' },
+          { type: 'redacted_thinking', data: 'opaque' },
+          { type: 'text', text: 'Hello!' }
+        ]
+      }
+    ]
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter().messages[1], {
+    role: 'assistant',
+    content: 'Hello!',
+    reasoning_details: [
+      { type: 'reasoning.text', text: 'Greeting', signature: 'sig-2' },
+      { type: 'reasoning.encrypted', data: 'opaque' }
+    ]
+  });
+});
+
+test('keeps cache_control breakpoints on system, text and tool_result blocks', () => {
+  const ephemeral = { type: 'ephemeral' as const };
+  const handler = new AnthropicRequestHandler({
+    model: 'anthropic/claude-sonnet-4',
+    system: [
+      { type: 'text', text: 'You are a librarian.' },
+      { type: 'text', text: 'Long reference text', cache_control: ephemeral }
+    ],
+    messages: [
+      { role: 'user', content: [{ type: 'text', text: 'Question', cache_control: ephemeral }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'search', input: {} }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Results', cache_control: ephemeral }] }
+    ]
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter().messages, [
+    {
+      role: 'system',
+      content: [
+        { type: 'text', text: 'You are a librarian.' },
+        { type: 'text', text: 'Long reference text', cache_control: ephemeral }
+      ]
+    },
+    { role: 'user', content: [{ type: 'text', text: 'Question', cache_control: ephemeral }] },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search', arguments: '{}' } }]
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: [{ type: 'text', text: 'Results', cache_control: ephemeral }] }
+  ]);
+});
+
+test('sends system blocks without breakpoints as a string', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'openai/gpt-4o',
+    system: [{ type: 'text', text: 'One' }, { type: 'text', text: 'Two' }],
+    messages: [{ role: 'user', content: 'Hi' }]
+  });
+
+  assert.deepEqual(handler.transformToOpenRouter().messages[0], { role: 'system', content: 'One\nTwo' });
+});
+
+test('reports cache reads and writes separately from input tokens', () => {
+  const handler = new AnthropicRequestHandler({ model: 'anthropic/claude-sonnet-4', messages: [] });
+  const response = handler.transformToAnthropicResponse({
+    id: 'gen-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'anthropic/claude-sonnet-4',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+    usage: {
+      prompt_tokens: 2100,
+      completion_tokens: 5,
+      total_tokens: 2105,
+      prompt_tokens_details: { cached_tokens: 1800, cache_write_tokens: 250 }
+    }
+  });
+
+  assert.deepEqual(response.usage, {
+    input_tokens: 50,
+    cache_creation_input_tokens: 250,
+    cache_read_input_tokens: 1800,
+    output_tokens: 5
+  });
+});
@@ -0,0 +1,78 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-log-'));
+const capturePath = path.join(dataDir, 'prompts.jsonl');
+process.env.PROMPT_CAPTURE = 'true';
+process.env.PROMPT_CAPTURE_PATH = capturePath;
+process.env.PROMPT_CAPTURE_MAX_BYTES = '600';
+process.env.PROMPT_CAPTURE_MAX_FILES = '2';
+process.env.PROMPT_REDACT_PATTERNS = JSON.stringify(['\\b\\d{3}-\\d{2}-\\d{4}\\b']);
+
+let requestLog: typeof import('../lib/request-log');
+
+before(async () => {
+  requestLog = await import('../lib/request-log');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('generates Anthropic-style request ids', () => {
+  const id = requestLog.generateRequestId();
+  assert.match(id, /^req_[0-9a-f]{24}$/);
+  assert.notEqual(id, requestLog.generateRequestId());
+});
+
+test('redacts secrets, configured patterns and base64 payloads', () => {
+  const redacted = requestLog.redact({
+    system: 'Use key sk-or-v1-abcdefghijklmnopqrstuvwxyz0123 and mail ops@example.com',
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'My SSN is 123-45-6789' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+      ]
+    }],
+    max_tokens: 100
+  });
+
+  assert.equal(redacted.system, 'Use key [REDACTED] and mail [REDACTED]');
+  assert.equal(redacted.messages[0].content[0].text, 'My SSN is [REDACTED]');
+  assert.deepEqual(redacted.messages[0].content[1].source, {
+    type: 'base64',
+    media_type: 'image/png',
+    data: '[12 base64 characters omitted]'
+  });
+  assert.equal(redacted.max_tokens, 100);
+});
+
+test('captures redacted prompts and rotates the file at the size limit', async () => {
+  assert.equal(requestLog.isPromptCaptureEnabled(), true);
+  for (let i = 0; i < 6; i++) {
+    requestLog.capturePrompt({
+      requestId: `req_${i}`,
+      keyId: 'key_test',
+      request: { messages: [{ role: 'user', content: `Question ${i} from a@b.io ${'x'.repeat(150)}` }] },
+      response: { content: [{ type: 'text', text: `Answer ${i}` }] }
+    });
+  }
+  await requestLog.flushPromptCapture();
+
+  const files = fs.readdirSync(dataDir).sort();
+  assert.deepEqual(files, ['prompts.jsonl', 'prompts.jsonl.1', 'prompts.jsonl.2']);
+  for (const file of files) {
+    assert.ok(fs.statSync(path.join(dataDir, file)).size <= 600);
+  }
+
+  const latest = fs.readFileSync(capturePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  const last = latest.at(-1);
+  assert.equal(last.request_id, 'req_5');
+  assert.equal(last.key_id, 'key_test');
+  assert.match(last.request.messages[0].content, /^Question 5 from \[REDACTED\]/);
+  assert.deepEqual(last.response, { content: [{ type: 'text', text: 'Answer 5' }] });
+});
@@ -0,0 +1,82 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AnthropicResponse, OpenRouterRequest } from '../lib/request-handler';
+import { ResponseCache, responseCacheKey, shouldUseCache } from '../lib/response-cache';
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-response-cache-'));
+
+after(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+const request: OpenRouterRequest = {
+  model: 'vendor/model',
+  messages: [{ role: 'user', content: 'Hi' }],
+  max_tokens: 100,
+  temperature: 0
+};
+
+function message(text: string): AnthropicResponse {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    content: [{ type: 'text', text }],
+    model: 'vendor/model',
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 3, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 1 }
+  };
+}
+
+test('keys requests by content but not by streaming', () => {
+  const key = responseCacheKey(request);
+  assert.equal(responseCacheKey({ max_tokens: 100, temperature: 0, messages: request.messages, model: 'vendor/model' }), key);
+  assert.equal(responseCacheKey({ ...request, stream: true, stream_options: { include_usage: true } }), key);
+  assert.notEqual(responseCacheKey({ ...request, max_tokens: 101 }), key);
+  assert.notEqual(responseCacheKey({ ...request, messages: [{ role: 'user', content: 'Hello' }] }), key);
+});
+
+test('caches temperature 0 requests unless the header says otherwise', () => {
+  assert.equal(shouldUseCache(request, undefined), true);
+  assert.equal(shouldUseCache(request, 'off'), false);
+  assert.equal(shouldUseCache({ ...request, temperature: 0.7 }, undefined), false);
+  assert.equal(shouldUseCache({ ...request, temperature: undefined }, 'on'), true);
+});
+
+test('expires entries after the TTL', async () => {
+  const cache = new ResponseCache({ ttlMs: 20, maxEntries: 10 });
+  cache.set('a', message('one'));
+  assert.equal(cache.get('a')?.content[0].type, 'text');
+
+  await new Promise(resolve => setTimeout(resolve, 30));
+  assert.equal(cache.get('a'), null);
+  assert.equal(cache.size, 0);
+});
+
+test('evicts the least recently used entry', () => {
+  const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 2 });
+  cache.set('a', message('a'));
+  cache.set('b', message('b'));
+  cache.get('a');
+  cache.set('c', message('c'));
+
+  assert.equal(cache.get('b'), null);
+  assert.ok(cache.get('a'));
+  assert.ok(cache.get('c'));
+});
+
+test('reloads entries from disk and removes evicted files', () => {
+  const first = new ResponseCache({ ttlMs: 60000, maxEntries: 1, dir: cacheDir });
+  first.set('a', message('from disk'));
+
+  const second = new ResponseCache({ ttlMs: 60000, maxEntries: 1, dir: cacheDir });
+  assert.deepEqual(second.get('a'), message('from disk'));
+
+  second.set('b', message('newer'));
+  assert.equal(fs.existsSync(path.join(cacheDir, 'a.json')), false);
+  assert.equal(fs.existsSync(path.join(cacheDir, 'b.json')), true);
+});
@@ -0,0 +1,59 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveModel, setRoutingConfig } from '../lib/routing';
+import { AnthropicRequestHandler } from '../lib/request-handler';
+
+beforeEach(() => {
+  setRoutingConfig({
+    default: 'google/gemini-2.5-flash',
+    routes: [
+      { match: 'claude-sonnet-4-*', model: 'anthropic/claude-sonnet-4' },
+      { match: '/^claude-(3-5-)?haiku/', model: 'openai/gpt-4o-mini', params: { max_tokens: 1000, temperature: 0 } },
+      { match: 'claude-sonnet-4-20250514', model: 'openai/gpt-4.1' }
+    ]
+  });
+});
+
+test('resolves exact names before patterns', () => {
+  assert.equal(resolveModel('claude-sonnet-4-20250514').model, 'openai/gpt-4.1');
+  assert.equal(resolveModel('claude-sonnet-4-latest').model, 'anthropic/claude-sonnet-4');
+  assert.equal(resolveModel('claude-3-5-haiku-20241022').model, 'openai/gpt-4o-mini');
+});
+
+test('passes OpenRouter ids through and defaults other names', () => {
+  assert.equal(resolveModel('deepseek/deepseek-r1').model, 'deepseek/deepseek-r1');
+  assert.equal(resolveModel('claude-opus-4-20250514').model, 'google/gemini-2.5-flash');
+});
+
+test('applies route params and reports the configured response model', () => {
+  const handler = new AnthropicRequestHandler({
+    model: 'claude-haiku-4',
+    max_tokens: 8000,
+    temperature: 0.9,
+    messages: [{ role: 'user', content: 'Hi' }]
+  });
+  const request = handler.transformToOpenRouter();
+
+  assert.equal(request.model, 'openai/gpt-4o-mini');
+  assert.equal(request.max_tokens, 1000);
+  assert.equal(request.temperature, 0);
+  assert.equal(handler.responseModel, 'claude-haiku-4');
+
+  setRoutingConfig({ responseModel: 'resolved', routes: [{ match: 'fast', model: 'openai/gpt-4o-mini' }] });
+  assert.equal(new AnthropicRequestHandler({ model: 'fast', messages: [] }).responseModel, 'openai/gpt-4o-mini');
+});
+
+test('rejects routes that name an unknown provider', () => {
+  assert.throws(
+    () => setRoutingConfig({ routes: [{ match: 'fast', model: 'gpt-4o-mini', provider: 'opnai' }] }),
+    /Unknown upstream provider opnai in routes\[0\]\.provider/
+  );
+  assert.throws(
+    () => setRoutingConfig({ routes: [{ match: 'fast', model: 'gpt-4o-mini', fallbacks: [{ model: 'llama3', provider: 'olama' }] }] }),
+    /Unknown upstream provider olama in routes\[0\]\.fallbacks\[0\]\.provider/
+  );
+  assert.doesNotThrow(() => setRoutingConfig({
+    providers: { local: { type: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' } },
+    routes: [{ match: 'fast', model: 'llama3', provider: 'local', fallbacks: [{ model: 'gpt-4o-mini', provider: 'openai' }] }]
+  }));
+});
@@ -0,0 +1,93 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// A fresh catalog cache keeps pricing lookups off the network
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'anthrorouter-spend-'));
+process.env.USAGE_LOG_PATH = path.join(dataDir, 'usage.jsonl');
+process.env.MODELS_CACHE_PATH = path.join(dataDir, 'models.json');
+fs.writeFileSync(process.env.MODELS_CACHE_PATH, JSON.stringify({
+  fetchedAt: Date.now(),
+  models: [{
+    id: 'vendor/priced',
+    name: 'Priced',
+    created: 0,
+    pricing: { prompt: '0.000003', completion: '0.000015', input_cache_read: '0.0000003', input_cache_write: '0.00000375' }
+  }]
+}));
+
+let spend: typeof import('../lib/spend');
+
+before(async () => {
+  spend = await import('../lib/spend');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function makeKey(id: string, spendLimits: import('../lib/key-store').KeySpendLimits): import('../lib/key-store').ApiKeyRecord {
+  return {
+    id,
+    name: 'test',
+    keyHash: `hash_${id}`,
+    keyPrefix: 'sk-ar-test',
+    createdAt: new Date().toISOString(),
+    enabled: true,
+    spendLimits
+  };
+}
+
+test('prefers the cost reported by the upstream', async () => {
+  const cost = await spend.computeCost('vendor/priced', {
+    inputTokens: 1000,
+    outputTokens: 100,
+    reasoningTokens: 0,
+    cachedTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0.5
+  });
+  assert.equal(cost, 0.5);
+});
+
+test('falls back to catalog pricing with cached tokens at the cache prices', async () => {
+  const cost = await spend.computeCost('vendor/priced', {
+    inputTokens: 1000,
+    outputTokens: 100,
+    reasoningTokens: 40,
+    cachedTokens: 600,
+    cacheWriteTokens: 200
+  });
+  assert.ok(Math.abs(cost - (200 * 0.000003 + 600 * 0.0000003 + 200 * 0.00000375 + 100 * 0.000015)) < 1e-12);
+  assert.equal(await spend.computeCost('local-model', { inputTokens: 10, outputTokens: 10, reasoningTokens: 0, cachedTokens: 0, cacheWriteTokens: 0 }), 0);
+});
+
+test('rejects keys over their daily spend, counting usage already logged', () => {
+  const record = makeKey('key_daily', { dailyUsd: 1 });
+  fs.appendFileSync(process.env.USAGE_LOG_PATH!, JSON.stringify({
+    timestamp: new Date().toISOString(),
+    keyId: record.id,
+    model: 'claude-sonnet-4',
+    provider: 'openrouter',
+    upstreamModel: 'anthropic/claude-sonnet-4',
+    stream: false,
+    inputTokens: 100,
+    outputTokens: 100,
+    cost: 0.75
+  }) + '\n');
+
+  assert.equal(spend.checkSpendLimit(record).allowed, true);
+  spend.recordSpend(record, 0.3);
+
+  const decision = spend.checkSpendLimit(record);
+  assert.equal(decision.allowed, false);
+  assert.match(decision.message!, /Daily spend limit of \$1\.00 reached/);
+});
+
+test('allows unlimited keys without tracking them', () => {
+  const record = makeKey('key_unlimited', {});
+  spend.recordSpend(record, 1000);
+  assert.equal(spend.checkSpendLimit(record).allowed, true);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSEParser, SSEMessage } from '../lib/sse-parser';
+
+function parseAll(pieces: string[]): SSEMessage[] {
+  const parser = new SSEParser();
+  const messages: SSEMessage[] = [];
+  for (const piece of pieces) {
+    messages.push(...parser.push(piece));
+  }
+  messages.push(...parser.flush());
+  return messages;
+}
+
+test('parses data events separated by blank lines', () => {
+  const messages = parseAll(['data: {"a":1}\n\ndata: [DONE]\n\n']);
+  assert.deepEqual(messages, [
+    { type: 'event', event: undefined, data: '{"a":1}' },
+    { type: 'event', event: undefined, data: '[DONE]' }
+  ]);
+});
+
+test('carries partial lines across pushes', () => {
+  const messages = parseAll(['da', 'ta: {"con', 'tent":"hi"}', '\n', '\n']);
+  assert.deepEqual(messages, [{ type: 'event', event: undefined, data: '{"content":"hi"}' }]);
+});
+
+test('joins multi-line data fields', () => {
+  const messages = parseAll(['event: chunk\ndata: line one\ndata: line two\n\n']);
+  assert.deepEqual(messages, [{ type: 'event', event: 'chunk', data: 'line one\nline two' }]);
+});
+
+test('handles CRLF line endings split between pushes', () => {
+  const messages = parseAll(['data: one\r', '\n\r', '\ndata: two\r\n\r\n']);
+  assert.deepEqual(messages, [
+    { type: 'event', event: undefined, data: 'one' },
+    { type: 'event', event: undefined, data: 'two' }
+  ]);
+});
+
+test('reports comment lines', () => {
+  const messages = parseAll([': OPENROUTER PROCESSING\n\ndata: x\n\n']);
+  assert.deepEqual(messages, [
+    { type: 'comment', comment: 'OPENROUTER PROCESSING' },
+    { type: 'event', event: undefined, data: 'x' }
+  ]);
+});
+
+test('dispatches a trailing event without a final blank line on flush', () => {
+  const messages = parseAll(['data: tail']);
+  assert.deepEqual(messages, [{ type: 'event', event: undefined, data: 'tail' }]);
+});
@@ -0,0 +1,345 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response } from 'express';
+import { handleStreamingResponse, MessageAccumulator, messageToEvents, StreamTranslator } from '../lib/streaming-handler';
+
+// Deterministic PRNG so failing splits can be reproduced
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function splitRandomly(bytes: Uint8Array, random: () => number): Uint8Array[] {
+  const pieces: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const size = 1 + Math.floor(random() * 24);
+    pieces.push(bytes.slice(offset, offset + size));
+    offset += size;
+  }
+  return pieces;
+}
+
+function upstreamResponse(pieces: Uint8Array[]): globalThis.Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(piece);
+      }
+      controller.close();
+    }
+  });
+  return new Response(body);
+}
+
+async function translate(pieces: Uint8Array[]): Promise<string> {
+  let output = '';
+  const fakeRes = {
+    setHeader() {},
+    write(text: string) {
+      output += text;
+      return true;
+    },
+    end() {}
+  } as unknown as Response;
+
+  await handleStreamingResponse(upstreamResponse(pieces), fakeRes, { model: 'test-model' });
+  return output;
+}
+
+function parseEvents(output: string): Array<{ event: string; data: any }> {
+  return output
+    .split('\n\n')
+    .filter(frame => frame.startsWith('event: '))
+    .map(frame => {
+      const [eventLine, dataLine] = frame.split('\n');
+      return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+    });
+}
+
+const chunks = [
+  { id: 'gen-1', choices: [{ delta: { role: 'assistant', content: 'Héllo ' } }] },
+  { id: 'gen-1', choices: [{ delta: { content: 'wörld 👋' } }] },
+  { id: 'gen-1', choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '' } }] } }] },
+  { id: 'gen-1', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"query":' } }] } }] },
+  { id: 'gen-1', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"weather"}' } }] } }] },
+  { id: 'gen-1', choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+  { id: 'gen-1', choices: [], usage: { prompt_tokens: 12, completion_tokens: 9 } }
+];
+
+const upstreamText =
+  ': OPENROUTER PROCESSING\r\n\r\n' +
+  chunks.map(chunk => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join('') +
+  'data: [DONE]\r\n\r\n';
+
+test('translates an unsplit stream into the full Anthropic event sequence', async () => {
+  const output = await translate([new TextEncoder().encode(upstreamText)]);
+  const events = parseEvents(output);
+
+  assert.ok(output.startsWith(': OPENROUTER PROCESSING\n\n'));
+  assert.deepEqual(events.map(e => e.event), [
+    'message_start',
+    'ping',
+    'content_block_start',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_stop',
+    'content_block_start',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_stop',
+    'message_delta',
+    'message_stop'
+  ]);
+  for (const { event, data } of events) {
+    assert.equal(data.type, event);
+  }
+
+  const text = events
+    .filter(e => e.data.delta?.type === 'text_delta')
+    .map(e => e.data.delta.text)
+    .join('');
+  assert.equal(text, 'Héllo wörld 👋');
+
+  const json = events
+    .filter(e => e.data.delta?.type === 'input_json_delta')
+    .map(e => e.data.delta.partial_json)
+    .join('');
+  assert.deepEqual(JSON.parse(json), { query: 'weather' });
+
+  const messageDelta = events.find(e => e.event === 'message_delta')!.data;
+  assert.equal(messageDelta.delta.stop_reason, 'tool_use');
+  assert.deepEqual(messageDelta.usage, { input_tokens: 12, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 9 });
+});
+
+test('resolves with the assembled message and usage', async () => {
+  const fakeRes = { setHeader() {}, write() { return true; }, end() {} } as unknown as Response;
+  const result = await handleStreamingResponse(
+    upstreamResponse([new TextEncoder().encode(upstreamText)]),
+    fakeRes,
+    { model: 'test-model' }
+  );
+
+  assert.deepEqual(result.message, {
+    id: 'gen-1',
+    type: 'message',
+    role: 'assistant',
+    content: [
+      { type: 'text', text: 'Héllo wörld 👋' },
+      { type: 'tool_use', id: 'call_1', name: 'lookup', input: { query: 'weather' } }
+    ],
+    model: 'test-model',
+    stop_reason: 'tool_use',
+    stop_sequence: null,
+    usage: { input_tokens: 12, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 9 }
+  });
+  assert.equal(result.usage.outputTokens, 9);
+});
+
+test('keeps interleaved tool calls in their own blocks', () => {
+  const toolChunk = (index: number, fn: { name?: string; arguments: string }, id?: string) => ({
+    id: 'gen-1',
+    choices: [{ index: 0, delta: { tool_calls: [{ index, id, type: 'function', function: fn }] }, finish_reason: null }]
+  });
+  const textChunk = (content: string) => ({ id: 'gen-1', choices: [{ index: 0, delta: { content }, finish_reason: null }] });
+  const finishChunk = { id: 'gen-1', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] };
+
+  const translate = (chunks: any[]) => {
+    const translator = new StreamTranslator({ model: 'test-model' });
+    const events = [...chunks.flatMap(chunk => translator.transformChunk(chunk)), ...translator.finish()];
+
+    // Each block's deltas arrive before its content_block_stop
+    const stopped = new Set<number>();
+    for (const event of events) {
+      if (event.type === 'content_block_delta') {
+        assert.ok(!stopped.has(event.index), `delta for block ${event.index} after it was stopped`);
+      } else if (event.type === 'content_block_stop') {
+        stopped.add(event.index);
+      }
+    }
+
+    const accumulator = new MessageAccumulator();
+    events.forEach(event => accumulator.add(event));
+    assert.equal(accumulator.message!.stop_reason, 'tool_use');
+    return accumulator.message!.content;
+  };
+
+  assert.deepEqual(translate([
+    toolChunk(0, { name: 'lookup', arguments: '{"query":' }, 'call_1'),
+    toolChunk(1, { name: 'fetch', arguments: '{"url":' }, 'call_2'),
+    toolChunk(0, { arguments: '"weather"}' }),
+    toolChunk(1, { arguments: '"https://example.com"}' }),
+    finishChunk
+  ]), [
+    { type: 'tool_use', id: 'call_1', name: 'lookup', input: { query: 'weather' } },
+    { type: 'tool_use', id: 'call_2', name: 'fetch', input: { url: 'https://example.com' } }
+  ]);
+
+  // Text in the middle of a call's arguments doesn't end the call
+  assert.deepEqual(translate([
+    toolChunk(0, { name: 'lookup', arguments: '{"a"' }, 'call_1'),
+    textChunk('hi'),
+    toolChunk(0, { arguments: ':1}' }),
+    finishChunk
+  ]), [
+    { type: 'tool_use', id: 'call_1', name: 'lookup', input: { a: 1 } },
+    { type: 'text', text: 'hi' }
+  ]);
+});
+
+test('ends the stream with an error event when the upstream reports one', () => {
+  const translator = new StreamTranslator({ model: 'test-model' });
+  const events = [
+    ...translator.transformChunk({ id: 'gen-1', choices: [{ index: 0, delta: { content: 'Hel' }, finish_reason: null }] }),
+    ...translator.transformChunk({ id: 'gen-1', error: { code: 502, message: 'Provider disconnected' }, choices: [{ index: 0, delta: { content: '' }, finish_reason: 'error' }] }),
+    ...translator.finish()
+  ];
+
+  assert.deepEqual(events.map(event => event.type), ['message_start', 'ping', 'content_block_start', 'content_block_delta', 'error']);
+  assert.deepEqual(events.at(-1), { type: 'error', error: { type: 'api_error', message: 'Provider disconnected' } });
+  assert.equal(translator.completed, false);
+  assert.equal(translator.error, 'Provider disconnected');
+});
+
+test('reports an interrupted upstream body as an error event', async () => {
+  const encoder = new TextEncoder();
+  let pulls = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulls++ === 0) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ id: 'gen-1', choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: null }] })}\n\n`));
+      } else {
+        controller.error(new Error('socket hang up'));
+      }
+    }
+  });
+  let output = '';
+  const fakeRes = { setHeader() {}, write(text: string) { output += text; return true; }, end() {} } as unknown as Response;
+
+  const result = await handleStreamingResponse(new Response(body), fakeRes, { model: 'test-model' });
+
+  const events = parseEvents(output);
+  assert.deepEqual(events.at(-1), { event: 'error', data: { type: 'error', error: { type: 'api_error', message: 'Upstream stream was interrupted' } } });
+  assert.ok(!events.some(event => event.event === 'message_stop'));
+  assert.equal(result.complete, false);
+  assert.equal(result.message.content[0].type, 'text');
+});
+
+test('reports a body that ends without a finish reason as an error event', async () => {
+  const chunk = { id: 'gen-1', choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: null }] };
+  let output = '';
+  const fakeRes = { setHeader() {}, write(text: string) { output += text; return true; }, end() {} } as unknown as Response;
+
+  const result = await handleStreamingResponse(
+    upstreamResponse([new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`)]),
+    fakeRes,
+    { model: 'test-model' }
+  );
+
+  const events = parseEvents(output);
+  assert.deepEqual(events.at(-1), {
+    event: 'error',
+    data: { type: 'error', error: { type: 'api_error', message: 'Upstream stream ended before the response was complete' } }
+  });
+  assert.ok(!events.some(event => event.event === 'message_delta' || event.event === 'message_stop'));
+  assert.equal(result.complete, false);
+});
+
+test('replays a complete message as events that rebuild it', () => {
+  const message = {
+    id: 'msg_cached',
+    type: 'message' as const,
+    role: 'assistant' as const,
+    content: [
+      { type: 'thinking' as const, thinking: 'Look it up.', signature: 'sig' },
+      { type: 'text' as const, text: 'Checking.' },
+      { type: 'tool_use' as const, id: 'call_1', name: 'lookup', input: { query: 'weather' } }
+    ],
+    model: 'test-model',
+    stop_reason: 'tool_use',
+    stop_sequence: null,
+    usage: { input_tokens: 12, cache_creation_input_tokens: 0, cache_read_input_tokens: 4, output_tokens: 9 }
+  };
+
+  const events = messageToEvents(message);
+  assert.equal(events[0].message.usage.output_tokens, 0);
+  assert.equal(events[0].message.stop_reason, null);
+
+  const accumulator = new MessageAccumulator();
+  events.forEach(event => accumulator.add(event));
+  assert.deepEqual(accumulator.message, message);
+});
+
+test('produces identical output for randomly split byte streams', async () => {
+  const bytes = new TextEncoder().encode(upstreamText);
+  const expected = await translate([bytes]);
+
+  for (let seed = 1; seed <= 200; seed++) {
+    const pieces = splitRandomly(bytes, mulberry32(seed));
+    const output = await translate(pieces);
+    assert.equal(output, expected, `mismatch for split seed ${seed}`);
+  }
+});
+
+test('produces identical output when split into single bytes', async () => {
+  const bytes = new TextEncoder().encode(upstreamText);
+  const expected = await translate([bytes]);
+  const pieces = Array.from(bytes, byte => Uint8Array.of(byte));
+
+  assert.equal(await translate(pieces), expected);
+});
+
+test('streams reasoning as thinking blocks with signature deltas', async () => {
+  const reasoningChunks = [
+    { id: 'gen-2', choices: [{ delta: { reasoning: 'Let me ', reasoning_details: [{ type: 'reasoning.text', text: 'Let me ' }] } }] },
+    { id: 'gen-2', choices: [{ delta: { reasoning: 'think', reasoning_details: [{ type: 'reasoning.text', text: 'think', signature: 'sig' }] } }] },
+    { id: 'gen-2', choices: [{ delta: { content: 'Done' }, finish_reason: 'stop' }] }
+  ];
+  const text = reasoningChunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+  const events = parseEvents(await translate([new TextEncoder().encode(text)]));
+  const blockEvents = events
+    .filter(e => e.event.startsWith('content_block'))
+    .map(e => e.data);
+
+  assert.deepEqual(blockEvents, [
+    { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Let me ' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'think' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Done' } },
+    { type: 'content_block_stop', index: 1 }
+  ]);
+  assert.equal(events.at(-2)!.data.delta.stop_reason, 'end_turn');
+});
+
+test('reports reasoning, cached tokens and cost from the final usage chunk', () => {
+  const translator = new StreamTranslator({ model: 'test-model', inputTokens: 40 });
+  assert.deepEqual(translator.usage, { inputTokens: 40, outputTokens: 0, reasoningTokens: 0, cachedTokens: 0, cacheWriteTokens: 0, cost: undefined });
+
+  translator.transformChunk({ id: 'gen-3', choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] });
+  translator.transformChunk({
+    id: 'gen-3',
+    choices: [],
+    usage: {
+      prompt_tokens: 50,
+      completion_tokens: 20,
+      total_tokens: 70,
+      cost: 0.0012,
+      prompt_tokens_details: { cached_tokens: 32, cache_write_tokens: 8 },
+      completion_tokens_details: { reasoning_tokens: 15 }
+    }
+  });
+
+  assert.deepEqual(translator.usage, { inputTokens: 50, outputTokens: 20, reasoningTokens: 15, cachedTokens: 32, cacheWriteTokens: 8, cost: 0.0012 });
+  // Anthropic reports cache reads and writes apart from input_tokens
+  const messageDelta = translator.finish().find(event => event.type === 'message_delta');
+  assert.deepEqual(messageDelta.usage, { input_tokens: 10, cache_creation_input_tokens: 8, cache_read_input_tokens: 32, output_tokens: 20 });
+});
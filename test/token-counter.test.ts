@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnthropicRequestHandler } from '../lib/request-handler';
+import { charsPerToken, estimateInputTokens, estimateTextTokens } from '../lib/token-counter';
+
+test('picks a chars-per-token ratio by model family', () => {
+  assert.equal(charsPerToken('anthropic/claude-sonnet-4'), 3.5);
+  assert.equal(charsPerToken('openai/gpt-4o'), 4.0);
+  assert.equal(charsPerToken('some/unknown-model'), 3.8);
+});
+
+test('counts non-Latin characters as one token each', () => {
+  assert.equal(estimateTextTokens('abcdefgh', 4), 2);
+  assert.equal(estimateTextTokens('你好', 4), 2);
+});
+
+test('includes system prompt, tools and images in the estimate', () => {
+  const base = { model: 'openai/gpt-4o', messages: [{ role: 'user' as const, content: 'Hello there' }] };
+  const plain = estimateInputTokens(new AnthropicRequestHandler(base).transformToOpenRouter());
+
+  const rich = estimateInputTokens(new AnthropicRequestHandler({
+    ...base,
+    system: 'You are terse.',
+    tools: [{ name: 'lookup', input_schema: { type: 'object' } }],
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Hello there' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } }
+      ]
+    }]
+  }).transformToOpenRouter());
+
+  assert.ok(plain > 0);
+  assert.ok(rich > plain + 1600);
+});
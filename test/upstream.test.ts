@@ -0,0 +1,72 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchWithFallback } from '../lib/upstream';
+import { OpenRouterRequest } from '../lib/request-handler';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// Replays scripted responses and records the model each call asked for
+function scriptFetch(script: Array<() => globalThis.Response>) {
+  const calls: string[] = [];
+  globalThis.fetch = (async (_url: any, init: any) => {
+    calls.push(JSON.parse(init.body).model);
+    const next = script.shift();
+    if (!next) {
+      throw new Error('Unexpected upstream call');
+    }
+    return next();
+  }) as typeof fetch;
+  return calls;
+}
+
+const request: OpenRouterRequest = { model: 'primary/model', messages: [{ role: 'user', content: 'Hi' }] };
+const targets = [
+  { provider: 'openrouter', model: 'primary/model' },
+  { provider: 'openrouter', model: 'backup/model' }
+];
+const ok = () => new Response(JSON.stringify({ ok: true }), { status: 200 });
+const rateLimited = () => new Response('{}', { status: 429, headers: { 'retry-after': '0' } });
+
+test('retries the same model on 429 honoring Retry-After', async () => {
+  const calls = scriptFetch([rateLimited, ok]);
+
+  const result = await fetchWithFallback(request, targets);
+
+  assert.equal(result.response.status, 200);
+  assert.equal(result.model, 'primary/model');
+  assert.deepEqual(calls, ['primary/model', 'primary/model']);
+});
+
+test('falls back to the next model once retries are exhausted', async () => {
+  const calls = scriptFetch([rateLimited, rateLimited, rateLimited, ok]);
+
+  const result = await fetchWithFallback(request, targets);
+
+  assert.equal(result.model, 'backup/model');
+  assert.deepEqual(calls, ['primary/model', 'primary/model', 'primary/model', 'backup/model']);
+});
+
+test('falls back after network errors', async () => {
+  const failing = () => {
+    throw new TypeError('fetch failed');
+  };
+  const calls = scriptFetch([failing, failing, failing, ok]);
+
+  const result = await fetchWithFallback(request, targets);
+
+  assert.equal(result.model, 'backup/model');
+  assert.equal(calls.length, 4);
+});
+
+test('returns client errors without retrying or falling back', async () => {
+  const calls = scriptFetch([() => new Response('{}', { status: 400 })]);
+
+  const result = await fetchWithFallback(request, targets);
+
+  assert.equal(result.response.status, 400);
+  assert.deepEqual(calls, ['primary/model']);
+});
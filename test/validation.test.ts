@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateMessagesRequest } from '../lib/validation';
+
+const valid = {
+  model: 'vendor/model',
+  max_tokens: 2048,
+  system: [{ type: 'text', text: 'Be brief.', cache_control: { type: 'ephemeral' } }],
+  messages: [
+    { role: 'user', content: 'Weather in Paris?' },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'Use the tool.', signature: 'sig' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+      ]
+    },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Sunny' }] }] }
+  ],
+  tools: [{ name: 'get_weather', input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] } }],
+  tool_choice: { type: 'tool', name: 'get_weather' },
+  thinking: { type: 'enabled', budget_tokens: 1024 }
+};
+
+function rejects(body: unknown, message: string, options?: { requireMaxTokens?: boolean }) {
+  assert.throws(() => validateMessagesRequest(body, options), { name: 'Error', message });
+}
+
+test('accepts a well-formed request', () => {
+  assert.equal(validateMessagesRequest(valid), valid);
+});
+
+test('requires model, max_tokens and messages', () => {
+  rejects({ ...valid, model: undefined }, 'model: Field required');
+  rejects({ ...valid, max_tokens: undefined }, 'max_tokens: Field required');
+  rejects({ ...valid, max_tokens: 0 }, 'max_tokens: Input should be greater than or equal to 1');
+  rejects({ ...valid, messages: undefined }, 'messages: Field required');
+  rejects({ ...valid, messages: [] }, 'messages: At least one message is required');
+  rejects([], 'Request body must be a JSON object');
+  // count_tokens has no max_tokens
+  const { max_tokens, thinking, ...countable } = valid;
+  assert.ok(validateMessagesRequest(countable, { requireMaxTokens: false }));
+});
+
+test('checks roles and their order', () => {
+  rejects({ ...valid, messages: [{ role: 'system', content: 'Hi' }] }, "messages.0.role: Input should be 'user' or 'assistant'");
+  rejects(
+    { ...valid, messages: [{ role: 'user', content: 'Hi' }, { role: 'user', content: 'Hello?' }] },
+    'messages.1.role: roles must alternate between "user" and "assistant", but found multiple "user" roles in a row'
+  );
+});
+
+test('checks content block types and fields by role', () => {
+  rejects(
+    { ...valid, messages: [{ role: 'user', content: [{ type: 'tool_use', id: 'a', name: 'b', input: {} }] }] },
+    "messages.0.content.0.type: Input tag 'tool_use' does not match any of the expected tags: 'text', 'image', 'document', 'tool_result'"
+  );
+  rejects({ ...valid, messages: [{ role: 'user', content: [{ type: 'text' }] }] }, 'messages.0.content.0.text: Field required');
+  rejects({ ...valid, messages: [{ role: 'user', content: 42 }] }, 'messages.0.content: Input should be a valid string or list of content blocks');
+  rejects(
+    { ...valid, messages: [{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'a', content: [{ type: 'tool_result' }] }] }] },
+    "messages.0.content.0.content.0.type: Input tag 'tool_result' does not match any of the expected tags: 'text', 'image', 'document'"
+  );
+  rejects({ ...valid, system: [{ type: 'text', text: 'x', cache_control: { type: 'forever' } }] }, "system.0.cache_control.type: Input should be 'ephemeral'");
+});
+
+test('checks tool definitions and tool_choice', () => {
+  rejects({ ...valid, tools: [{ name: 'get weather', input_schema: { type: 'object' } }] }, "tools.0.name: String should match pattern '^[a-zA-Z0-9_-]{1,128}$'");
+  rejects({ ...valid, tools: [{ name: 'lookup' }] }, 'tools.0.input_schema: Field required');
+  rejects({ ...valid, tools: [{ name: 'lookup', input_schema: { type: 'array' } }] }, "tools.0.input_schema.type: Input should be 'object'");
+  rejects({ ...valid, tools: [{ name: 'lookup', input_schema: { type: 'object', required: 'q' } }] }, 'tools.0.input_schema.required: Input should be a valid list of strings');
+  rejects({ ...valid, tools: [valid.tools[0], valid.tools[0]] }, 'tools.1.name: Tool names must be unique, get_weather is used more than once');
+  rejects({ ...valid, tool_choice: { type: 'tool', name: 'missing' } }, 'tool_choice.name: Tool missing is not defined in tools');
+});
+
+test('checks sampling parameters and the thinking budget', () => {
+  rejects({ ...valid, temperature: 1.5 }, 'temperature: Input should be between 0 and 1');
+  rejects({ ...valid, stop_sequences: 'END' }, 'stop_sequences: Input should be a valid list of strings');
+  rejects({ ...valid, thinking: { type: 'enabled', budget_tokens: 512 } }, 'thinking.budget_tokens: Input should be greater than or equal to 1024');
+  rejects({ ...valid, max_tokens: 1024 }, 'max_tokens: must be greater than thinking.budget_tokens');
+});